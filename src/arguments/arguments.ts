@@ -32,6 +32,36 @@ export const argv = yargs(hideBin(process.argv))
         type: 'array',
         example: "inkdrop --ci --modules module1 module2",
     })
+    .option('plan-json', {
+        describe: 'Loads the plan from a JSON file produced by "terraform show -json". Without --graph-file, the graph is built from the plan and terraform is not needed.',
+        type: 'string',
+    })
+    .option('graph-file', {
+        describe: 'Loads the dependency graph from a DOT file produced by "terraform graph", instead of running terraform.',
+        type: 'string',
+    })
+    .option('compare', {
+        describe: 'Compares the plan with a second plan file or plan JSON, and highlights the resources that differ between the two.',
+        type: 'string',
+    })
+    .option('catalog', {
+        describe: 'Loads custom resource catalogs (CSV or JSON) that are merged with the built-in catalog. Files named inkdrop-catalog*.csv or inkdrop-catalog*.json in the Terraform project are loaded automatically.',
+        type: 'array',
+    })
+    .option('show-unknown', {
+        describe: 'Displays also the resources that are not in the catalog, with a generic icon colored per provider.',
+        type: 'boolean',
+    })
+    .option('layout', {
+        describe: 'Sets the layout of the diagram: "tb" layered top to bottom, "lr" layered left to right, "grid" a compact grid per module, or "force" force-directed. It can also be changed in the browser.',
+        choices: ['tb', 'lr', 'grid', 'force'],
+        default: 'tb',
+        type: 'string',
+    })
+    .option('group-by-tag', {
+        describe: 'Draws a frame for each value of the given tag, e.g. Team or Environment, instead of a frame for each module. It can also be changed in the browser.',
+        type: 'string',
+    })
     .option('path', {
         describe: 'Sets the working directory to a specified Terraform project path.',
         type: 'string',
@@ -49,6 +79,31 @@ export const argv = yargs(hideBin(process.argv))
         describe: 'Saves an SVG of the diagram locally.',
         type: 'boolean',
     })
+    .option('format', {
+        describe: 'Sets the format of the diagrams saved with --svg or --ci. PDF combines the diagram and each module of --modules into one page each.',
+        choices: ['svg', 'png', 'pdf'],
+        default: 'svg',
+        type: 'string',
+    })
+    .option('stable-names', {
+        describe: 'Names the saved diagrams, summaries and CI data without a timestamp, e.g. inkdrop-diagram.svg, so that each run overwrites the previous files.',
+        type: 'boolean',
+    })
+    .option('scale', {
+        default: 2,
+        describe: 'Sets the scale of the PNG diagrams saved with --format png.',
+        type: 'number',
+    })
+    .option('engine', {
+        describe: 'Sets how --svg and --ci render the diagram: "browser" drives a headless Chromium, "native" writes the SVG directly from Node.js without downloading Chromium.',
+        choices: ['browser', 'native'],
+        default: 'browser',
+        type: 'string',
+    })
+    .option('summary', {
+        describe: 'Writes a summary of the planned changes per module and per category, as JSON and as a Markdown table.',
+        type: 'boolean',
+    })
     .option('telemetry-off', {
         describe: 'Disables telemetry data collection.',
         type: 'boolean',
@@ -66,6 +121,14 @@ export const argv = yargs(hideBin(process.argv))
     .example([
         ['$0', 'Generates a diagram and opens its interactive version in a browser.'],
         ['$0 plan.out', 'Uses a Terraform plan file to visualize changes.'],
+        ['$0 --plan-json plan.json', 'Renders a plan JSON offline, without running terraform.'],
+        ['$0 --plan-json plan.json --graph-file graph.dot', 'Uses pre-rendered plan and graph files, without running terraform.'],
+        ['$0 plan-a.out --compare plan-b.out', 'Diffs two plans in a single diagram.'],
+        ['$0 --catalog ./catalogs/internal.csv', 'Adds the services of a custom resource catalog to the diagram.'],
+        ['$0 plan.out --show-unknown', 'Displays also the resources of providers without icons, e.g. Kubernetes.'],
+        ['$0 plan.out --layout lr', 'Lays out the diagram from left to right, for wide graphs.'],
+        ['$0 plan.out --svg --stable-names', 'Saves inkdrop-diagram.svg, which only changes when the plan changes, e.g. to commit it.'],
+        ['$0 plan.out --group-by-tag Team', 'Groups the resources by the value of their Team tag.'],
         ['$0 --ci', 'Enables CI mode, which does not open the browser and logs extra details.'],
         ['$0 --detailed', 'Generates a diagram with comprehensive details for all resources.'],
         ['$0 --debug', 'Enables debug mode.'],
@@ -74,6 +137,10 @@ export const argv = yargs(hideBin(process.argv))
         ['$0 --renderer-port 8080', 'Sets a custom rendering service port.'],
         ['$0 plan.out --show-unchanged', 'Visualizes changes including resources with no changes.'],
         ['$0 plan.out --svg', 'Saves an SVG of the diagram locally.'],
+        ['$0 plan.out --svg --format png --scale 3', 'Saves a PNG of the diagram locally, at 3x scale.'],
+        ['$0 plan.out --ci --modules module1 --format pdf', 'Saves a PDF with one page for the diagram and one for each module.'],
+        ['$0 plan.out --ci --engine native', 'In CI mode, writes the SVG without downloading Chromium.'],
+        ['$0 plan.out --ci --summary', 'Also writes a JSON and Markdown summary of the planned changes.'],
         ['$0 plan.out --show-unchanged --opacity-full', 'Sets the opacity of unchanged resources to 100%.'],
         ['$0 --telemetry-off', 'Disables telemetry data collection.'],
     ])
@@ -0,0 +1,85 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { findProjectCatalogs, loadCatalogs } from "./loadCatalog";
+
+const header = "Service Name,Main Diagram Blocks,Missing Resources,Data Sources,Icon Path,Simplified Category"
+
+let projectPath = ""
+
+const writeFile = (name: string, content: string) => {
+    fs.writeFileSync(path.join(projectPath, name), content)
+    return path.join(projectPath, name)
+}
+
+beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "inkdrop-catalog-"))
+})
+
+afterEach(() => {
+    fs.rmSync(projectPath, { recursive: true, force: true })
+})
+
+describe("findProjectCatalogs", () => {
+    it("finds the CSV and JSON catalogs of the project, in name order", () => {
+        writeFile("inkdrop-catalog-b.json", "[]")
+        writeFile("inkdrop-catalog.csv", header)
+        writeFile("catalog.csv", header)
+        writeFile("inkdrop-catalog.txt", "")
+        expect(findProjectCatalogs(projectPath)).toEqual([
+            path.join(projectPath, "inkdrop-catalog-b.json"),
+            path.join(projectPath, "inkdrop-catalog.csv")
+        ])
+    })
+})
+
+describe("loadCatalogs", () => {
+    it("loads the rows of the CSV and JSON catalogs, in loading order", () => {
+        const csvPath = writeFile("queue.csv", `${header}\nInternal Queue,mycorp_queue,"mycorp_queue_policy,mycorp_queue_subscription",,Icons/queue.svg,Message Queuing\n`)
+        const jsonPath = writeFile("cache.json", JSON.stringify([{
+            "Service Name": "Internal Cache",
+            "Main Diagram Blocks": ["mycorp_cache"],
+            "Icon Path": "Icons/cache.svg",
+            "Simplified Category": "Databases"
+        }]))
+        const { catalog, errors, warnings } = loadCatalogs([csvPath, jsonPath])
+        expect(errors).toEqual([])
+        expect(warnings).toEqual([])
+        expect(catalog.map((row) => [row["Service Name"], row["Main Diagram Blocks"], row["Missing Resources"]])).toEqual([
+            ["Internal Queue", "mycorp_queue", "mycorp_queue_policy,mycorp_queue_subscription"],
+            ["Internal Cache", "mycorp_cache", ""]
+        ])
+    })
+
+    it("reports the missing files, the invalid JSON and the missing required columns", () => {
+        const missingPath = path.join(projectPath, "missing.csv")
+        const invalidPath = writeFile("invalid.json", "[{")
+        const incompletePath = writeFile("incomplete.csv", `Service Name,Main Diagram Blocks\nInternal Queue,mycorp_queue\n`)
+        const { catalog, errors } = loadCatalogs([missingPath, invalidPath, incompletePath])
+        expect(catalog).toEqual([])
+        expect(errors[0]).toBe(`${missingPath}: the catalog file does not exist`)
+        expect(errors[1]).toMatch(new RegExp(`^${invalidPath}: the file is not valid JSON`))
+        expect(errors.slice(2)).toEqual([
+            `${incompletePath}: row 1: missing value for the required column "Icon Path"`,
+            `${incompletePath}: row 1: missing value for the required column "Simplified Category"`
+        ])
+    })
+
+    it("inlines the SVG icons, relative to the catalog file", () => {
+        fs.mkdirSync(path.join(projectPath, "icons"))
+        writeFile("icons/queue.svg", `<svg xmlns="http://www.w3.org/2000/svg"/>`)
+        const csvPath = writeFile("queue.csv", `${header}\nInternal Queue,mycorp_queue,,,icons/queue.svg,Message Queuing\n`)
+        const { catalog } = loadCatalogs([csvPath])
+        expect(catalog[0]["Icon Path"]).toBe("data:image/svg+xml;base64," + Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg"/>`).toString("base64"))
+    })
+
+    it("falls back to the generic icon when an icon file is missing", () => {
+        const csvPath = writeFile("queue.csv", `${header}\nInternal Queue,mycorp_queue,,,icons/missing.svg,Message Queuing\n`)
+        const { catalog, errors, warnings } = loadCatalogs([csvPath])
+        expect(errors).toEqual([])
+        expect(warnings).toEqual([
+            `${csvPath}: row 1: the icon "icons/missing.svg" does not exist (resolved to ${path.join(projectPath, "icons/missing.svg")}), using the generic icon`
+        ])
+        expect(catalog[0]["Icon Path"]).toBe("")
+    })
+})
@@ -0,0 +1,96 @@
+import fs from "fs";
+import path from "path";
+import Papa from "papaparse";
+import { CatalogRow, validateCatalogRows } from "../../tldraw-renderer/src/catalog/catalog";
+
+// Catalog files in the Terraform project are loaded without the --catalog argument
+const projectCatalogPattern = /^inkdrop-catalog.*\.(csv|json)$/
+
+export const findProjectCatalogs = (projectPath: string) => {
+    return fs.readdirSync(projectPath)
+        .filter((file) => projectCatalogPattern.test(file))
+        .sort()
+        .map((file) => path.resolve(projectPath, file))
+}
+
+const readCatalogFile = (catalogPath: string): { rows: any[], errors: string[] } => {
+    const content = fs.readFileSync(catalogPath, 'utf8')
+    if (path.extname(catalogPath).toLowerCase() === ".json") {
+        let rows: any
+        try {
+            rows = JSON.parse(content)
+        } catch (err) {
+            return { rows: [], errors: [`${catalogPath}: the file is not valid JSON: ${err}`] }
+        }
+        if (!Array.isArray(rows)) {
+            return { rows: [], errors: [`${catalogPath}: expected an array of catalog rows`] }
+        }
+        return { rows, errors: [] }
+    }
+    const result = Papa.parse(content.trim(), { delimiter: ",", header: true, skipEmptyLines: true })
+    return {
+        rows: result.data,
+        errors: result.errors.map((error) => `${catalogPath}: row ${(error.row || 0) + 1}: ${error.message}`)
+    }
+}
+
+// Icons are inlined into the catalog, so that the renderer does not need to access the project files.
+// PNG icons are wrapped into an SVG, since the SVG exports embed the icons as SVG.
+// A missing icon is only a warning: the resources are drawn with the generic icon instead.
+const inlineIcon = (iconPath: string, catalogPath: string): { iconPath?: string, warning?: string, error?: string } => {
+    if (iconPath.startsWith("Icons/") || iconPath.startsWith("data:")) {
+        return { iconPath }
+    }
+    const resolvedPath = path.resolve(path.dirname(catalogPath), iconPath)
+    if (!fs.existsSync(resolvedPath) || !fs.lstatSync(resolvedPath).isFile()) {
+        return { iconPath: "", warning: `the icon "${iconPath}" does not exist (resolved to ${resolvedPath}), using the generic icon` }
+    }
+    let svg = ""
+    switch (path.extname(resolvedPath).toLowerCase()) {
+        case ".svg":
+            svg = fs.readFileSync(resolvedPath, 'utf8')
+            break
+        case ".png":
+            svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="64" height="64" viewBox="0 0 64 64">` +
+                `<image width="64" height="64" xlink:href="data:image/png;base64,${fs.readFileSync(resolvedPath).toString("base64")}"/></svg>`
+            break
+        default:
+            return { error: `the icon "${iconPath}" must be an SVG or a PNG file` }
+    }
+    return { iconPath: "data:image/svg+xml;base64," + Buffer.from(svg).toString("base64") }
+}
+
+// Loads and validates custom catalog files, in CSV or JSON, with the same columns as the built-in catalog
+export const loadCatalogs = (catalogPaths: string[]) => {
+    const catalog: CatalogRow[] = []
+    const errors: string[] = []
+    const warnings: string[] = []
+    catalogPaths.forEach((catalogPath) => {
+        if (!fs.existsSync(catalogPath) || !fs.lstatSync(catalogPath).isFile()) {
+            errors.push(`${catalogPath}: the catalog file does not exist`)
+            return
+        }
+        if (![".csv", ".json"].includes(path.extname(catalogPath).toLowerCase())) {
+            errors.push(`${catalogPath}: catalog files must be CSV or JSON files`)
+            return
+        }
+        const { rows, errors: readErrors } = readCatalogFile(catalogPath)
+        const { catalog: fileCatalog, errors: validationErrors } = validateCatalogRows(rows, catalogPath)
+        errors.push(...readErrors, ...validationErrors)
+        if (readErrors.length > 0 || validationErrors.length > 0) return
+        fileCatalog.forEach((row, index) => {
+            if (!row["Icon Path"]) return
+            const { iconPath, warning, error } = inlineIcon(row["Icon Path"], catalogPath)
+            if (error) {
+                errors.push(`${catalogPath}: row ${index + 1}: ${error}`)
+            } else {
+                row["Icon Path"] = iconPath!
+            }
+            if (warning) {
+                warnings.push(`${catalogPath}: row ${index + 1}: ${warning}`)
+            }
+        })
+        catalog.push(...fileCatalog)
+    })
+    return { catalog, errors, warnings }
+}
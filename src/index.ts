@@ -11,7 +11,13 @@ import { sendPing } from './ping/sendPing';
 import semver from 'semver';
 import cors from 'cors';
 import { warnUserIfNotLatestVersion } from './utils/fetchLatestVersion';
-import { getCurrentFormattedDate } from './utils/time';
+import { getFileNameSuffix } from './utils/time';
+import { NativeRenderOptions, computeNativeNodeGroups, exportNativeSvgs } from './renderer/nativeRenderer';
+import { LayoutType } from '../tldraw-renderer/src/layout/dagreLayout';
+import { readLayoutFile, toSavedLayout, writeLayoutFile } from './layout/layoutFile';
+import { writePlanSummary } from './summary/writeSummary';
+import { findProjectCatalogs, loadCatalogs } from './catalog/loadCatalog';
+import { getPngScale } from './renderer/exportFormats';
 
 const MAX_BUFFER_SIZE = 10 * 1024 * 1024; // 10 MB
 
@@ -43,6 +49,50 @@ if ((argv as any).planfile) {
     }
 }
 
+if ((argv as any).engine === "native" && (argv as any).format !== "svg") {
+    console.error("The native engine can only export SVG diagrams. Please use --engine browser for other formats.");
+    process.exit(1);
+}
+
+if ((argv as any).scale !== undefined && getPngScale((argv as any).scale) !== (argv as any).scale) {
+    console.error(`The scale of the PNG diagrams must be a positive number: ${(argv as any).scale}`);
+    process.exit(1);
+}
+
+if ((argv as any).summary && !(argv as any).planfile && !(argv as any).planJson) {
+    console.error("A plan file or --plan-json is needed to write the plan summary.");
+    process.exit(1);
+}
+
+if ((argv as any).planJson) {
+    if ((argv as any).planfile) {
+        console.error("The plan file and --plan-json cannot be used together. Please specify only one of them.");
+        process.exit(1);
+    }
+    if (!fs.existsSync((argv as any).planJson) || !fs.lstatSync((argv as any).planJson).isFile()) {
+        console.error(`The path to the plan JSON file is invalid: ${(argv as any).planJson}`);
+        process.exit(1);
+    }
+}
+
+if ((argv as any).graphFile) {
+    if (!fs.existsSync((argv as any).graphFile) || !fs.lstatSync((argv as any).graphFile).isFile()) {
+        console.error(`The path to the graph file is invalid: ${(argv as any).graphFile}`);
+        process.exit(1);
+    }
+}
+
+if ((argv as any).compare) {
+    if (!(argv as any).planfile && !(argv as any).planJson) {
+        console.error("A plan file or --plan-json is needed to compare it with --compare.");
+        process.exit(1);
+    }
+    if (!fs.existsSync((argv as any).compare) || !fs.lstatSync((argv as any).compare).isFile()) {
+        console.error(`The path to the compared plan is invalid: ${(argv as any).compare}`);
+        process.exit(1);
+    }
+}
+
 //Check if the argument "--path" contains a path to a Terraform project
 if ((argv as any).path) {
     if (!fs.existsSync((argv as any).path) || !fs.lstatSync((argv as any).path).isDirectory()) {
@@ -51,6 +101,18 @@ if ((argv as any).path) {
     }
 }
 
+// Load the custom catalogs of the project and of the "--catalog" argument
+const { catalog, errors: catalogErrors, warnings: catalogWarnings } = loadCatalogs([
+    ...findProjectCatalogs(path.resolve((argv as any).path || ".")),
+    ...((argv as any).catalog || []).map((catalogPath: string) => path.resolve(String(catalogPath)))
+])
+Array.from(new Set(catalogWarnings)).forEach((warning) => console.warn("Warning: " + warning))
+if (catalogErrors.length > 0) {
+    console.error("The custom resource catalogs are invalid:")
+    Array.from(new Set(catalogErrors)).forEach((error) => console.error("  " + error))
+    process.exit(1);
+}
+
 // Middleware to parse JSON bodies
 app.use(express.json({ limit: '50mb' }));
 app.use('/is-demo', (req, res) => {
@@ -68,27 +130,39 @@ let state: any = {}
 const ci = (argv as any).ci || false
 const modules = (argv as any).modules || []
 
-app.post('/send-ci-data', async (req, res) => {
-    const receivedData = req.body;
-    Object.keys(receivedData).forEach(key => {
+// The keys read by the Inkdrop Chrome extension, the other options of the render input stay out of the CI data
+const ciDataKeys = ["planJson", "graph", "detailed", "debug", "showUnchanged", "ci", "opacityFull"]
+
+// Writes the data used by the Inkdrop Chrome extension, for the diagram and for each module
+const writeCiData = (receivedData: any) => {
+    ciDataKeys.filter(key => key in receivedData).forEach(key => {
         state[key] = receivedData[key]
     })
+    const fileNameSuffix = getFileNameSuffix((argv as any).stableNames || false)
+    console.log("Writing 'inkdrop-ci-data" + fileNameSuffix + ".json'...")
+    fs.writeFileSync(path.resolve(((argv as any).path || "."), 'inkdrop-ci-data' + fileNameSuffix + '.json'), JSON.stringify(state))
+    modules.forEach((module: string) => {
+        console.log(`Writing 'inkdrop-ci-data-${module}${fileNameSuffix}.json'...`)
+        fs.writeFileSync(path.resolve(((argv as any).path || "."), `inkdrop-ci-data-${module}${fileNameSuffix}.json`), JSON.stringify({
+            ...state,
+            planJson: {
+                ...state.planJson,
+                resource_changes: state.planJson.resource_changes.filter((change: any) => {
+                    return change.address.startsWith(`module.${module}`)
+                })
+            }
+        }))
+    })
+}
+
+app.post('/send-ci-data', async (req, res) => {
+    const receivedData = req.body;
     res.status(200).json({ message: 'Data stored', yourData: receivedData });
     if (ci) {
-        const currentDate = getCurrentFormattedDate()
-        console.log("Writing 'inkdrop-ci-data_" + currentDate + ".json'...")
-        fs.writeFileSync(path.resolve(((argv as any).path || "."), 'inkdrop-ci-data_' + currentDate + '.json'), JSON.stringify(state))
-        modules.forEach((module: string) => {
-            console.log(`Writing 'inkdrop-ci-data-${module}_${currentDate}.json'...`)
-            fs.writeFileSync(path.resolve(((argv as any).path || "."), `inkdrop-ci-data-${module}_${currentDate}.json`), JSON.stringify({
-                ...state,
-                planJson: {
-                    ...state.planJson,
-                    resource_changes: state.planJson.resource_changes.filter((change: any) => {
-                        return change.address.startsWith(`module.${module}`)
-                    })
-                }
-            }))
+        writeCiData(receivedData)
+    } else {
+        Object.keys(receivedData).forEach(key => {
+            state[key] = receivedData[key]
         })
     }
 });
@@ -99,12 +173,18 @@ app.post('/debug-log', (req, res) => {
 })
 
 let planJson = ""
+let comparePlanJson = ""
 let graph = ""
 
 const debug: boolean = (argv as any).debug || false
 const detailed: boolean = (argv as any).detailed || false
 const showUnchanged: boolean = (argv as any).showUnchanged || false
 const opacityFull: boolean = (argv as any).opacityFull || false
+const showUnknown: boolean = (argv as any).showUnknown || false
+const layout: LayoutType = (argv as any).layout || "tb"
+const groupByTag: string | undefined = (argv as any).groupByTag
+// Positions arranged by hand in the browser, saved in the Terraform project
+let savedLayout = readLayoutFile(path.resolve((argv as any).path || "."))
 
 app.get('/get-render-input', (req, res) => {
     res.status(200).json({
@@ -114,10 +194,29 @@ app.get('/get-render-input', (req, res) => {
         debug,
         showUnchanged,
         ci,
-        opacityFull
+        opacityFull,
+        comparePlanJson,
+        catalog,
+        showUnknown,
+        layout,
+        groupByTag,
+        savedLayout
     });
 })
 
+app.post('/save-layout', (req, res) => {
+    const receivedLayout = toSavedLayout(req.body)
+    if (!receivedLayout) {
+        res.status(400).json({ message: 'Invalid layout' });
+        return
+    }
+    savedLayout = receivedLayout
+    if (!ci) {
+        writeLayoutFile(path.resolve((argv as any).path || "."), savedLayout)
+    }
+    res.status(200).json({ message: 'Layout saved' });
+})
+
 // Start the server
 const server = app.listen(PORT, 'localhost', () => {
     console.log(`Diagram renderer running on localhost:${PORT}`);
@@ -150,25 +249,24 @@ export const openUrl = (url: string) => {
     });
 }
 
-const runTerraformGraph = async () => {
-
-    if ((argv as any).planfile) {
-        const { stdout: showStdout, stderr: showStderr } = await execAsync(`terraform show -json "${path.resolve((argv as any).planfile)}"`, {
-            cwd: path.resolve((argv as any).path || "."),
-            maxBuffer: MAX_BUFFER_SIZE
-        })
-            .catch((err) => {
-                console.error("Error while running 'terraform show -json':\n"
-                    + err)
-                process.exit(1);
-            })
-        if (showStderr) {
-            console.error(`${showStderr}`);
+const runTerraformShow = async (planfile: string) => {
+    const { stdout: showStdout, stderr: showStderr } = await execAsync(`terraform show -json "${path.resolve(planfile)}"`, {
+        cwd: path.resolve((argv as any).path || "."),
+        maxBuffer: MAX_BUFFER_SIZE
+    })
+        .catch((err) => {
+            console.error("Error while running 'terraform show -json':\n"
+                + err)
             process.exit(1);
-        }
-        planJson = showStdout
+        })
+    if (showStderr) {
+        console.error(`${showStderr}`);
+        process.exit(1);
     }
+    return showStdout
+}
 
+const runTerraformGraphCommand = async () => {
     const { stdout: versionStdout, stderr: versionStderr } = await execAsync('terraform -v -json', {
         cwd: path.resolve((argv as any).path || "."),
         maxBuffer: MAX_BUFFER_SIZE
@@ -204,16 +302,105 @@ const runTerraformGraph = async () => {
         console.error(`${graphStderr}`);
         process.exit(1);
     }
+    return graphStdout
+}
+
+// The compared plan can be either a plan JSON or a binary plan file
+const readComparePlan = async (comparePath: string) => {
+    console.log("Reading compared plan...")
+    const content = fs.readFileSync(path.resolve(comparePath), 'utf8')
+    try {
+        JSON.parse(content)
+        return content
+    } catch (err) {
+        return await runTerraformShow(comparePath)
+    }
+}
+
+const runTerraformGraph = async () => {
+
+    if ((argv as any).planJson) {
+        console.log("Reading plan JSON file...")
+        planJson = fs.readFileSync(path.resolve((argv as any).planJson), 'utf8')
+        try {
+            JSON.parse(planJson)
+        } catch (err) {
+            console.error(`The plan JSON file could not be parsed: ${(argv as any).planJson}\n` + err);
+            process.exit(1);
+        }
+    } else if ((argv as any).planfile) {
+        planJson = await runTerraformShow((argv as any).planfile)
+    }
+
+    if ((argv as any).compare) {
+        comparePlanJson = await readComparePlan((argv as any).compare)
+    }
+
+    if ((argv as any).graphFile) {
+        console.log("Reading graph file...")
+        graph = fs.readFileSync(path.resolve((argv as any).graphFile), 'utf8')
+    } else if ((argv as any).planJson) {
+        // Offline mode: the renderer builds the graph from the plan JSON, no terraform binary is needed
+        console.log("No graph file provided. The graph will be built from the plan JSON.")
+    } else {
+        graph = await runTerraformGraphCommand()
+    }
+
+    if ((argv as any).summary) {
+        writePlanSummary(getNativeRenderOptions(), path.resolve((argv as any).out || (argv as any).path || "."), getFileNameSuffix((argv as any).stableNames || false))
+    }
 
-    graph = graphStdout
     const ci = (argv as any).ci || false
     const svg = (argv as any).svg || false
 
-    if (ci || svg) {
+    if ((ci || svg) && (argv as any).engine === "native") {
+        runNativeExport()
+    } else if (ci || svg) {
         runHeadlessBrowserAndExportSVG(server, argv)
     } else {
         openUrl(`http://localhost:${PORT}/`);
     }
 }
 
+const getNativeRenderOptions = (): NativeRenderOptions => {
+    return {
+        planJson,
+        comparePlanJson,
+        graph,
+        detailed,
+        showUnchanged,
+        opacityFull,
+        debug,
+        catalog,
+        showUnknown,
+        layout,
+        groupByTag,
+        savedLayout,
+        assetsRoot: path.join(__dirname, '..')
+    }
+}
+
+// Renders the diagram directly in Node.js, without downloading and driving Chromium
+const runNativeExport = () => {
+    console.log("Creating SVG of the diagram...")
+    const options = getNativeRenderOptions()
+    exportNativeSvgs(options, modules, path.resolve((argv as any).out || (argv as any).path || "."), getFileNameSuffix((argv as any).stableNames || false))
+    if (ci) {
+        const { planJsonObj } = computeNativeNodeGroups(options)
+        writeCiData({
+            planJson: planJsonObj,
+            graph,
+            detailed,
+            debug,
+            showUnchanged,
+            ci,
+            opacityFull
+        })
+        server.close()
+    } else {
+        console.log("Opening Inkdrop...")
+        openUrl(`http://localhost:${PORT}/`);
+    }
+}
+
 runTerraformGraph()
\ No newline at end of file
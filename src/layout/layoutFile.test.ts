@@ -0,0 +1,77 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import dagre from "dagre";
+import { applySavedLayout } from "../../tldraw-renderer/src/layout/savedLayout";
+import { layoutFileName, readLayoutFile, toSavedLayout, writeLayoutFile } from "./layoutFile";
+
+let projectPath = ""
+
+const writeLayout = (content: string) => fs.writeFileSync(path.join(projectPath, layoutFileName), content)
+
+beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "inkdrop-layout-"))
+    jest.spyOn(console, "warn").mockImplementation(() => { })
+})
+
+afterEach(() => {
+    jest.restoreAllMocks()
+    fs.rmSync(projectPath, { recursive: true, force: true })
+})
+
+describe("readLayoutFile", () => {
+    it("has no layout without a layout file", () => {
+        expect(readLayoutFile(projectPath)).toBeUndefined()
+        expect(console.warn).not.toHaveBeenCalled()
+    })
+
+    it("ignores a file that is not valid JSON, or without a known layout", () => {
+        writeLayout("{ \"layout\": ")
+        expect(readLayoutFile(projectPath)).toBeUndefined()
+        writeLayout(JSON.stringify({ layout: "circle", nodes: {} }))
+        expect(readLayoutFile(projectPath)).toBeUndefined()
+        expect(console.warn).toHaveBeenCalledTimes(2)
+    })
+
+    it("drops the malformed positions, and keeps the other ones", () => {
+        writeLayout(JSON.stringify({
+            layout: "tb",
+            nodes: { "aws_s3_bucket.a": { x: 1, y: 2, extra: true }, "aws_s3_bucket.b": { x: "1", y: 2 }, "aws_s3_bucket.c": null },
+            frames: { "module.svc": { x: 1, y: 2, width: 3 } }
+        }))
+        expect(readLayoutFile(projectPath)).toEqual({ layout: "tb", nodes: { "aws_s3_bucket.a": { x: 1, y: 2 } }, frames: {} })
+        expect(toSavedLayout({ layout: "lr", nodes: [] })).toEqual({ layout: "lr", nodes: {}, frames: {} })
+    })
+})
+
+describe("writeLayoutFile", () => {
+    it("writes the ids sorted, so that the file has small diffs", () => {
+        writeLayoutFile(projectPath, {
+            layout: "tb",
+            nodes: { "module.svc.aws_sqs_queue.q": { x: 3, y: 4 }, "aws_s3_bucket.a": { x: 1, y: 2 } },
+            frames: { "module.svc": { x: 0, y: 0, width: 10, height: 10 } }
+        })
+        const content = fs.readFileSync(path.join(projectPath, layoutFileName), "utf8")
+        expect(Object.keys(JSON.parse(content).nodes)).toEqual(["aws_s3_bucket.a", "module.svc.aws_sqs_queue.q"])
+        expect(content.endsWith("}\n")).toBe(true)
+    })
+
+    it("writes back what it reads, after applying it to a graph with other resources", () => {
+        writeLayout(JSON.stringify({
+            layout: "tb",
+            nodes: { "aws_s3_bucket.removed": { x: 900, y: 900 }, "aws_s3_bucket.a": { x: 0, y: 500 } },
+            frames: {}
+        }))
+        const savedLayout = readLayoutFile(projectPath)!
+        const g = new dagre.graphlib.Graph({ compound: true })
+        g.setNode("aws_s3_bucket.a", { x: 100, y: 100, width: 100, height: 80 })
+        g.setNode("aws_s3_bucket.new", { x: 300, y: 100, width: 100, height: 80 })
+        applySavedLayout(g, savedLayout)
+        expect([g.node("aws_s3_bucket.a").y, g.node("aws_s3_bucket.new").y]).toEqual([500, 500])
+
+        writeLayoutFile(projectPath, savedLayout)
+        expect(readLayoutFile(projectPath)).toEqual(savedLayout)
+        expect(Object.keys(savedLayout.nodes)).toEqual(["aws_s3_bucket.removed", "aws_s3_bucket.a"])
+        expect(Object.keys(readLayoutFile(projectPath)!.nodes)).toEqual(["aws_s3_bucket.a", "aws_s3_bucket.removed"])
+    })
+})
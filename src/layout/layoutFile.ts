@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+import { SavedLayout } from "../../tldraw-renderer/src/layout/savedLayout";
+import { layoutTypes } from "../../tldraw-renderer/src/layout/dagreLayout";
+
+// The positions of the shapes arranged by hand are saved in the Terraform project, so that they can be committed
+export const layoutFileName = "inkdrop-layout.json"
+
+// Keeps only the valid positions, since the file can be edited by hand
+const readPositions = <T>(value: any, keys: string[]) => {
+    const positions: { [id: string]: T } = {}
+    if (typeof value !== "object" || value === null) return positions
+    Object.keys(value).forEach((id) => {
+        const position = value[id]
+        if (typeof position !== "object" || position === null) return
+        if (!keys.every((key) => typeof position[key] === "number" && isFinite(position[key]))) return
+        positions[id] = keys.reduce((result, key) => ({ ...result, [key]: position[key] }), {} as T)
+    })
+    return positions
+}
+
+// Validates a layout read from the file, or sent by the renderer
+export const toSavedLayout = (content: any): SavedLayout | undefined => {
+    if (typeof content !== "object" || content === null || !layoutTypes.includes(content.layout)) return undefined
+    return {
+        layout: content.layout,
+        nodes: readPositions(content.nodes, ["x", "y"]),
+        frames: readPositions(content.frames, ["x", "y", "width", "height"])
+    }
+}
+
+export const readLayoutFile = (projectPath: string): SavedLayout | undefined => {
+    const layoutPath = path.resolve(projectPath, layoutFileName)
+    if (!fs.existsSync(layoutPath) || !fs.lstatSync(layoutPath).isFile()) return undefined
+    let content: any
+    try {
+        content = JSON.parse(fs.readFileSync(layoutPath, 'utf8'))
+    } catch (err) {
+        console.warn(`Ignoring ${layoutPath}: the file is not valid JSON: ${err}`)
+        return undefined
+    }
+    const savedLayout = toSavedLayout(content)
+    if (!savedLayout) {
+        console.warn(`Ignoring ${layoutPath}: expected a "layout" among ${layoutTypes.join(", ")}, with the positions of the "nodes" and "frames"`)
+    }
+    return savedLayout
+}
+
+const sortKeys = <T>(positions: { [id: string]: T }) => {
+    const sortedPositions: { [id: string]: T } = {}
+    Object.keys(positions).sort().forEach((id) => {
+        sortedPositions[id] = positions[id]
+    })
+    return sortedPositions
+}
+
+// The ids are sorted, so that the file has small diffs when it is committed
+export const writeLayoutFile = (projectPath: string, savedLayout: SavedLayout) => {
+    const layoutPath = path.resolve(projectPath, layoutFileName)
+    fs.writeFileSync(layoutPath, JSON.stringify({
+        layout: savedLayout.layout,
+        nodes: sortKeys(savedLayout.nodes),
+        frames: sortKeys(savedLayout.frames)
+    }, null, 2) + "\n")
+}
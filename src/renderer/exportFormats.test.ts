@@ -0,0 +1,64 @@
+import { defaultPngScale, getExportedSvg, getPdfDiagramSize, getPdfName, getPngPath, getPngScale, getPngViewport, getSvgSize } from "./exportFormats";
+
+const svg = (attributes: string) => `<svg xmlns="http://www.w3.org/2000/svg" ${attributes}><rect width="10" height="10"/></svg>`
+
+describe("getSvgSize", () => {
+    it("reads the width and height of the svg tag, or else its view box", () => {
+        expect(getSvgSize(svg(`width="1200.5" height="800" viewBox="0 0 10 10"`))).toEqual({ width: 1200.5, height: 800 })
+        expect(getSvgSize(svg(`viewBox="-20 -20 640,480"`))).toEqual({ width: 640, height: 480 })
+    })
+
+    it("defaults to 1000 pixels without a size", () => {
+        expect(getSvgSize(svg(""))).toEqual({ width: 1000, height: 1000 })
+    })
+})
+
+describe("PNG export", () => {
+    it("uses the --scale when it is a positive number", () => {
+        expect(getPngScale(3)).toBe(3)
+        expect(getPngScale(0.5)).toBe(0.5)
+        expect(getPngScale(undefined)).toBe(defaultPngScale)
+        expect(getPngScale(0)).toBe(defaultPngScale)
+        expect(getPngScale(-1)).toBe(defaultPngScale)
+        expect(getPngScale(NaN)).toBe(defaultPngScale)
+    })
+
+    it("renders the whole diagram, rounded up to device pixels, at the scale", () => {
+        expect(getPngViewport(svg(`width="1200.5" height="800"`), 3)).toEqual({ width: 1201, height: 800, deviceScaleFactor: 3 })
+    })
+
+    it("saves the PNG next to the SVG", () => {
+        expect(getPngPath("/out/inkdrop-diagram.svg")).toBe("/out/inkdrop-diagram.png")
+        expect(getPngPath("/out/svg.svg/vpc.svg")).toBe("/out/svg.svg/vpc.png")
+    })
+})
+
+describe("PDF export", () => {
+    it("shrinks the diagrams to the page, keeping their proportions", () => {
+        const { width, height } = getPdfDiagramSize(svg(`width="4000" height="1000"`))
+        expect(width).toBeCloseTo(27.7 / 2.54 * 96)
+        expect(width / height).toBeCloseTo(4)
+        expect(getPdfDiagramSize(svg(`width="1000" height="2000"`)).height).toBeCloseTo(16 / 2.54 * 96)
+    })
+
+    it("does not enlarge the small diagrams", () => {
+        expect(getPdfDiagramSize(svg(`width="300" height="200"`))).toEqual({ width: 300, height: 200 })
+    })
+
+    it("names the PDF like the diagram", () => {
+        expect(getPdfName("_24-10-19_18-05-11")).toBe("inkdrop-diagram_24-10-19_18-05-11.pdf")
+        expect(getPdfName("")).toBe("inkdrop-diagram.pdf")
+    })
+})
+
+describe("getExportedSvg", () => {
+    it("names the diagram after the time of the download, or with a stable name", () => {
+        expect(getExportedSvg("shapes at 24-10-19 18.05.11.svg", false, "_24-10-19_18-05-11")).toEqual({ name: "inkdrop-diagram_24-10-19_18.05.11.svg", title: "Diagram" })
+        expect(getExportedSvg("shapes at 24-10-19 18.05.11.svg", true, "")).toEqual({ name: "inkdrop-diagram.svg", title: "Diagram" })
+    })
+
+    it("names the diagrams of the modules after the module", () => {
+        expect(getExportedSvg("vpc.svg", false, "_24-10-19_18-05-11")).toEqual({ name: "vpc_24-10-19_18-05-11.svg", title: "vpc" })
+        expect(getExportedSvg("vpc.svg", true, "")).toEqual({ name: "vpc.svg", title: "vpc" })
+    })
+})
@@ -0,0 +1,108 @@
+import fs from "fs";
+import path from "path";
+import { Browser } from "puppeteer";
+
+export type ExportedSvg = {
+    path: string,
+    title: string
+}
+
+export const defaultPngScale = 2
+
+// A4 landscape within 1cm margins, less the title of the page, in CSS pixels
+const pdfDiagramMaxWidth = 27.7 / 2.54 * 96, pdfDiagramMaxHeight = 16 / 2.54 * 96
+
+export const getSvgSize = (svg: string) => {
+    const svgTag = svg.match(/<svg[^>]*>/)?.[0] || ""
+    const width = parseFloat(svgTag.match(/\swidth="([\d.]+)/)?.[1] || "")
+    const height = parseFloat(svgTag.match(/\sheight="([\d.]+)/)?.[1] || "")
+    if (!isNaN(width) && !isNaN(height)) {
+        return { width, height }
+    }
+    const viewBox = svgTag.match(/\sviewBox="([^"]+)"/)?.[1].split(/[\s,]+/).map(parseFloat) || []
+    return { width: viewBox[2] || 1000, height: viewBox[3] || 1000 }
+}
+
+const escapeHtml = (text: string) => {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+// The diagram downloaded by tldraw is named "shapes at <date> <time>.svg", the ones of the modules are named after the module
+export const getExportedSvg = (suggestedFilename: string, stableNames: boolean, fileNameSuffix: string) => {
+    if (suggestedFilename.startsWith("shapes at ")) {
+        return {
+            name: stableNames ? "inkdrop-diagram.svg" : suggestedFilename.replace("shapes at ", "inkdrop-diagram_").replace(" ", "_"),
+            title: "Diagram"
+        }
+    }
+    return {
+        name: suggestedFilename.replace(/(.*)\.svg/g, "$1" + fileNameSuffix + ".svg"),
+        title: suggestedFilename.replace(/\.svg$/, "")
+    }
+}
+
+export const getPngPath = (svgPath: string) => svgPath.replace(/\.svg$/, ".png")
+
+export const getPdfName = (fileNameSuffix: string) => "inkdrop-diagram" + fileNameSuffix + ".pdf"
+
+// The --scale of the PNGs, the default one when it is missing or not a positive number
+export const getPngScale = (scale?: number) => {
+    return scale !== undefined && isFinite(scale) && scale > 0 ? scale : defaultPngScale
+}
+
+// The PNG has the size of the SVG, in device pixels multiplied by the scale
+export const getPngViewport = (svg: string, scale: number) => {
+    const { width, height } = getSvgSize(svg)
+    return { width: Math.ceil(width), height: Math.ceil(height), deviceScaleFactor: scale }
+}
+
+// The diagrams are shrunk to fit their page, keeping their proportions, and never enlarged
+export const getPdfDiagramSize = (svg: string) => {
+    const { width, height } = getSvgSize(svg)
+    const ratio = Math.min(1, pdfDiagramMaxWidth / width, pdfDiagramMaxHeight / height)
+    return { width: width * ratio, height: height * ratio }
+}
+
+// Rasterizes each SVG into a PNG next to it, and removes the SVG
+export const exportPngs = async (browser: Browser, svgs: ExportedSvg[], scale: number) => {
+    const page = await browser.newPage()
+    for (const svg of svgs) {
+        const svgContent = fs.readFileSync(svg.path, 'utf8')
+        const viewport = getPngViewport(svgContent, scale)
+        await page.setViewport(viewport)
+        await page.setContent(`<html><body style="margin:0;background:white">${svgContent}</body></html>`)
+        const pngPath = getPngPath(svg.path)
+        await page.screenshot({ path: pngPath, clip: { x: 0, y: 0, width: viewport.width, height: viewport.height } })
+        fs.unlinkSync(svg.path)
+        console.log(`Exported diagram -> ${pngPath}`)
+    }
+    await page.close()
+}
+
+// Combines all the SVGs into a single PDF, one page per SVG, and removes the SVGs
+export const exportPdf = async (browser: Browser, svgs: ExportedSvg[], pdfPath: string) => {
+    const page = await browser.newPage()
+    const pages = svgs.map((svg) => {
+        const svgContent = fs.readFileSync(svg.path, 'utf8')
+        const { width, height } = getPdfDiagramSize(svgContent)
+        return `<div class="page"><h2>${escapeHtml(svg.title)}</h2><div class="diagram" style="width: ${width}px; height: ${height}px">${svgContent}</div></div>`
+    })
+    await page.setContent(`<html>
+        <head>
+            <style>
+                @page { size: A4 landscape; margin: 1cm; }
+                body { margin: 0; font-family: sans-serif; }
+                .page { page-break-after: always; }
+                .page:last-child { page-break-after: auto; }
+                .page h2 { font-size: 14px; font-weight: normal; margin: 0 0 0.5cm 0; }
+                .diagram { margin: 0 auto; }
+                .diagram > svg { display: block; width: 100%; height: 100%; }
+            </style>
+        </head>
+        <body>${pages.join("")}</body>
+    </html>`)
+    await page.pdf({ path: pdfPath, format: 'A4', landscape: true, printBackground: true })
+    svgs.forEach((svg) => fs.unlinkSync(svg.path))
+    await page.close()
+    console.log(`Exported diagram -> ${pdfPath}`)
+}
@@ -0,0 +1,80 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fromDot } from "ts-graphviz";
+import { buildNodeGroups, computeConnections } from "../../tldraw-renderer/src/parser/parseGraph";
+import { renderNodeGroupsToSvg } from "./nativeRenderer";
+
+const graph = `digraph {
+    subgraph "root" {
+        "[root] aws_lambda_function.f (expand)"
+        "[root] aws_s3_bucket.a (expand)"
+        "[root] aws_s3_bucket.b (expand)"
+        "[root] aws_lambda_function.f (expand)" -> "[root] aws_s3_bucket.a (expand)"
+    }
+}`
+
+// An icon whose gradient is referenced by id, like the AWS icons
+const icon = `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="64px" height="64px" viewBox="0 0 64 64" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+    <title>Icon</title>
+    <defs><linearGradient id="gradient"><stop offset="0" stop-color="#1B660F"/></linearGradient><rect id="tile" width="64" height="64"/></defs>
+    <use xlink:href="#tile" fill="url(#gradient)"/>
+</svg>`
+
+let assetsRoot = ""
+
+const build = () => {
+    const model = fromDot(graph)
+    const nodeGroups = buildNodeGroups(model, undefined, {
+        computeTerraformPlan: false,
+        detailed: false,
+        showUnchanged: false,
+        debugLog: () => { }
+    })
+    computeConnections(model, nodeGroups)
+    return nodeGroups
+}
+
+const render = (nodeGroups = build()) => renderNodeGroupsToSvg(nodeGroups, false, false, assetsRoot, "tb")!
+
+beforeAll(() => {
+    assetsRoot = fs.mkdtempSync(path.join(os.tmpdir(), "inkdrop-assets-"))
+    const iconPath = path.join(assetsRoot, build().get("aws_s3_bucket.a")!.iconPath.replace(".png", ".svg"))
+    fs.mkdirSync(path.dirname(iconPath), { recursive: true })
+    fs.writeFileSync(iconPath, icon)
+})
+
+afterAll(() => {
+    fs.rmSync(assetsRoot, { recursive: true, force: true })
+})
+
+describe("renderNodeGroupsToSvg", () => {
+    it("writes the same SVG for the same graph", () => {
+        const svg = render()
+        expect(svg).toContain("<line ")
+        expect(render()).toBe(svg)
+    })
+
+    it("escapes the names", () => {
+        const nodeGroups = build()
+        nodeGroups.get("aws_s3_bucket.a")!.name = `a<b&"c`
+        const svg = render(nodeGroups)
+        expect(svg).toContain("a&lt;b&amp;&quot;c")
+        expect(svg).not.toContain(`a<b&"c`)
+    })
+
+    it("prefixes the ids of each copy of an icon, so that they do not collide", () => {
+        const svg = render()
+        const ids = svg.match(/\sid="icon\d+-gradient"/g) || []
+        expect(ids.length).toBe(2)
+        expect(new Set(ids).size).toBe(2)
+        ids.forEach((id) => {
+            const prefixedId = id.split('"')[1]
+            expect(svg).toContain(`fill="url(#${prefixedId})"`)
+            expect(svg).toContain(`href="#${prefixedId.replace("gradient", "tile")}"`)
+        })
+        expect(svg).not.toMatch(/\sid="(gradient|tile)"|url\(#gradient\)|href="#tile"/)
+        expect(svg).not.toContain("<title>")
+    })
+})
@@ -0,0 +1,237 @@
+import fs from "fs";
+import path from "path";
+import { fromDot } from "ts-graphviz";
+import { NodeGroup } from "../../tldraw-renderer/src/parser/types";
+import { CatalogRow } from "../../tldraw-renderer/src/catalog/catalog";
+import { buildNodeGroups, computeConnections } from "../../tldraw-renderer/src/parser/parseGraph";
+import { LayoutType, computeDagreGraph, getSortedConnections, getSortedIds, isFrame } from "../../tldraw-renderer/src/layout/dagreLayout";
+import { graphFromPlanJson } from "../../tldraw-renderer/src/jsonPlanManager/graphFromPlan";
+import { filterOutNotNeededArgs } from "../../tldraw-renderer/src/utils/filterPlanJson";
+import { getComparisonColor, getComparisonLabel, mergeGraphModels, mergePlans, setComparisonStates } from "../../tldraw-renderer/src/jsonPlanManager/comparePlans";
+import { removeModuleKeys } from "../../tldraw-renderer/src/utils/modules";
+import { SavedLayout, applySavedLayout } from "../../tldraw-renderer/src/layout/savedLayout";
+
+export type NativeRenderOptions = {
+    planJson: string,
+    // Plan JSON compared with planJson, empty when not comparing
+    comparePlanJson: string,
+    graph: string,
+    detailed: boolean,
+    showUnchanged: boolean,
+    opacityFull: boolean,
+    debug: boolean,
+    // Rows of the custom catalogs
+    catalog: CatalogRow[],
+    // Displays the resources that are not in the catalog with a generic icon
+    showUnknown: boolean,
+    layout: LayoutType,
+    // Draws a frame per value of this tag instead of per module
+    groupByTag?: string,
+    // Positions arranged by hand in the browser
+    savedLayout?: SavedLayout,
+    // Directory containing the "Icons" folder
+    assetsRoot: string
+}
+
+const padding = 32
+const frameLabelHeight = 20
+
+const stateColor = (state: string) => {
+    return state === "create" ? "#37bb65" :
+        state === "delete" ? "#e22134" :
+            state === "moved" ? "#3b82f6" : "#f2960d"
+}
+
+const escapeXml = (text: string) => {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// There is no text measurement outside the browser, so the width of a character is estimated
+const truncate = (text: string, fontSize: number, maxWidth: number) => {
+    const maxChars = Math.floor(maxWidth / (fontSize * 0.6))
+    return text.length > maxChars ? text.slice(0, Math.max(maxChars - 3, 0)) + "..." : text
+}
+
+const formatResourceType = (type: string) => {
+    return type.split("_").slice(1).map(r => r.charAt(0).toUpperCase() + r.slice(1)).join(" ")
+}
+
+// Icons of custom catalogs are inlined as SVG data URLs
+const readIcon = (iconPath: string, assetsRoot: string) => {
+    if (iconPath.startsWith("data:image/svg+xml;base64,")) {
+        return Buffer.from(iconPath.split(",")[1], "base64").toString("utf8")
+    }
+    const svgPath = path.resolve(assetsRoot, iconPath.replace(".png", ".svg"))
+    if (!iconPath || !fs.existsSync(svgPath) || !fs.lstatSync(svgPath).isFile()) return undefined
+    return fs.readFileSync(svgPath, 'utf8')
+}
+
+// Loads the SVG version of an icon, with ids prefixed so that gradients of different icons do not collide
+const loadIcon = (iconPath: string, assetsRoot: string, idPrefix: string) => {
+    return readIcon(iconPath, assetsRoot)
+        ?.replace(/<\?xml[^>]*\?>/g, "")
+        .replace(/<!DOCTYPE[^>]*>/g, "")
+        .replace(/<title>[\s\S]*?<\/title>/g, "")
+        .replace(/\sid="([^"]+)"/g, ` id="${idPrefix}-$1"`)
+        .replace(/url\(#([^)]+)\)/g, `url(#${idPrefix}-$1)`)
+        .replace(/href="#([^"]+)"/g, `href="#${idPrefix}-$1"`)
+}
+
+const nodeToSvg = (nodeGroup: NodeGroup, x: number, y: number, w: number, h: number, opacity: number, icon: string | undefined) => {
+    const iconSize = 58
+    const comparisonColor = getComparisonColor(nodeGroup.comparison || "")
+    // Resources with count or for_each are drawn as a stack of cards
+    const stackOffsets = nodeGroup.instances ? [8, 4] : []
+    const elements: string[] = [
+        ...stackOffsets.map((offset) => `<rect x="${offset}" y="${offset}" width="${w}" height="${h}" rx="4" fill="white" stroke="${comparisonColor || "black"}" stroke-width="2"/>`),
+        `<rect width="${w}" height="${h}" rx="4" fill="white" stroke="${comparisonColor || "black"}" stroke-width="2"/>`,
+        `<text x="5" y="28" dominant-baseline="middle" style="font-family: sans-serif; font-size: 10px; fill: #504758;">${escapeXml(truncate(formatResourceType(nodeGroup.type), 10, w - 10))}</text>`
+    ]
+    if (icon) {
+        elements.push(icon.replace(/<svg([^>]*)>/, (match, attributes: string) => {
+            return `<svg${attributes.replace(/\s(x|y|width|height)="[^"]*"/g, "")} x="${w / 2 - iconSize / 2}" y="${h - iconSize - 14}" width="${iconSize}" height="${iconSize}">`
+        }))
+    }
+    if (!["no-op", "read"].includes(nodeGroup.state)) {
+        const textContent = nodeGroup.numberOfChanges.toString()
+        const badgeWidth = Math.max(24, textContent.length * (12 * 0.6) + 10)
+        const badgeX = w - badgeWidth - 5
+        elements.push(`<rect x="${badgeX}" y="5" width="${badgeWidth}" height="16" rx="8" ry="8" fill="${stateColor(nodeGroup.state)}"/>`)
+        elements.push(`<text x="${badgeX + badgeWidth / 2}" y="14" style="font-family: sans-serif; font-size: 12px; fill: black; text-anchor: middle; dominant-baseline: middle;">${textContent}</text>`)
+        elements.push(`<text x="5" y="14" dominant-baseline="middle" style="font-family: sans-serif; font-size: 14px; fill: black;">${escapeXml(truncate(nodeGroup.name, 14, w - 25 - badgeWidth))}</text>`)
+    } else {
+        elements.push(`<text x="5" y="14" dominant-baseline="middle" style="font-family: sans-serif; font-size: 14px; fill: black;">${escapeXml(truncate(nodeGroup.name, 14, w - 25))}</text>`)
+    }
+    if (comparisonColor) {
+        elements.push(`<text x="5" y="${h - 7}" dominant-baseline="middle" style="font-family: sans-serif; font-size: 10px; fill: ${comparisonColor};">${escapeXml(getComparisonLabel(nodeGroup.comparison!))}</text>`)
+    }
+    if (nodeGroup.instances) {
+        elements.push(`<text x="${w - 5}" y="${h - 7}" dominant-baseline="middle" style="font-family: sans-serif; font-size: 10px; fill: #504758; text-anchor: end;">×${nodeGroup.instances.length}</text>`)
+    }
+    return `<g transform="translate(${x}, ${y})" opacity="${opacity}">${elements.join("")}</g>`
+}
+
+// Clips the segment between the centers of two boxes to the border of the boxes
+const clipToBox = (fromX: number, fromY: number, toX: number, toY: number, halfW: number, halfH: number) => {
+    const dx = toX - fromX, dy = toY - fromY
+    if (dx === 0 && dy === 0) return { x: fromX, y: fromY }
+    const t = Math.min(dx !== 0 ? halfW / Math.abs(dx) : Infinity, dy !== 0 ? halfH / Math.abs(dy) : Infinity)
+    return { x: fromX + dx * t, y: fromY + dy * t }
+}
+
+export const renderNodeGroupsToSvg = (nodeGroups: Map<string, NodeGroup>, computeTerraformPlan: boolean, opacityFull: boolean, assetsRoot: string,
+    layout: LayoutType, groupByTag?: string, savedLayout?: SavedLayout) => {
+    const g = computeDagreGraph(nodeGroups, layout, groupByTag)
+    if (savedLayout && savedLayout.layout === layout && !groupByTag) {
+        applySavedLayout(g, savedLayout)
+    }
+    const ids = g.nodes()
+    if (ids.length === 0) return undefined
+
+    const minX = Math.min(...ids.map((id) => g.node(id).x - g.node(id).width / 2)) - padding
+    const minY = Math.min(...ids.map((id) => g.node(id).y - g.node(id).height / 2)) - padding - frameLabelHeight
+    const maxX = Math.max(...ids.map((id) => g.node(id).x + g.node(id).width / 2)) + padding
+    const maxY = Math.max(...ids.map((id) => g.node(id).y + g.node(id).height / 2)) + padding
+    const width = maxX - minX, height = maxY - minY
+
+    const depth = (id: string): number => g.parent(id) ? depth(g.parent(id)!) + 1 : 0
+    const frames = ids.filter((id) => isFrame(g, id)).sort((a, b) => depth(a) - depth(b)).map((id) => {
+        const node = g.node(id)
+        return `<g transform="translate(${node.x - node.width / 2 - minX}, ${node.y - node.height / 2 - minY})">` +
+            `<rect width="${node.width}" height="${node.height}" fill="white" fill-opacity="0.8" stroke="#1d1d1d" stroke-width="1"/>` +
+            `<text x="0" y="-6" style="font-family: sans-serif; font-size: 12px; fill: #1d1d1d;">${escapeXml(node.label || id)}</text></g>`
+    })
+
+    const opacities = new Map<string, number>()
+    nodeGroups.forEach((nodeGroup, id) => {
+        opacities.set(id, !opacityFull && computeTerraformPlan && ["no-op", "read"].includes(nodeGroup.state) ? 0.2 : 1)
+    })
+
+    const arrows: string[] = []
+    // In the order of the ids, like in the layout, so that the same plan always gives the same SVG
+    const sortedIds = getSortedIds(nodeGroups)
+    sortedIds.forEach((id) => {
+        getSortedConnections(nodeGroups.get(id)!).forEach((connection) => {
+            if (!nodeGroups.has(connection) || connection === id) return
+            const from = g.node(id), to = g.node(connection)
+            const start = clipToBox(from.x, from.y, to.x, to.y, from.width / 2, from.height / 2)
+            const end = clipToBox(to.x, to.y, from.x, from.y, to.width / 2, to.height / 2)
+            const opacity = computeTerraformPlan && opacities.get(id)! * opacities.get(connection)! < 1 ? 0.2 : 1
+            arrows.push(`<line x1="${start.x - minX}" y1="${start.y - minY}" x2="${end.x - minX}" y2="${end.y - minY}" stroke="#1d1d1d" stroke-width="2" marker-end="url(#arrowhead)" opacity="${opacity}"/>`)
+        })
+    })
+
+    const nodes = sortedIds.map((id, index) => {
+        const nodeGroup = nodeGroups.get(id)!
+        const node = g.node(id)
+        const icon = loadIcon(nodeGroup.iconPath, assetsRoot, "icon" + index)
+        return nodeToSvg(nodeGroup, node.x - node.width / 2 - minX, node.y - node.height / 2 - minY, node.width, node.height, opacities.get(id)!, icon)
+    })
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        `<defs><marker id="arrowhead" markerWidth="10" markerHeight="10" refX="9" refY="5" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="#1d1d1d"/></marker></defs>` +
+        `<rect width="${width}" height="${height}" fill="white"/>` +
+        frames.join("") + arrows.join("") + nodes.join("") +
+        `</svg>`
+}
+
+// Computes the node groups the same way as the interactive renderer
+export const computeNativeNodeGroups = (options: NativeRenderOptions) => {
+    const computeTerraformPlan = options.planJson !== ""
+    const comparePlanJsonObj = computeTerraformPlan && options.comparePlanJson ? filterOutNotNeededArgs(JSON.parse(options.comparePlanJson)) : undefined
+    const planJsonObj = comparePlanJsonObj ?
+        mergePlans(filterOutNotNeededArgs(JSON.parse(options.planJson)), comparePlanJsonObj) :
+        filterOutNotNeededArgs(computeTerraformPlan ? JSON.parse(options.planJson) : undefined)
+    let model = !options.graph && planJsonObj ? graphFromPlanJson(planJsonObj) : fromDot(options.graph)
+    if (comparePlanJsonObj) {
+        model = mergeGraphModels(model, graphFromPlanJson(comparePlanJsonObj))
+    }
+    const debugLog = (message: string) => {
+        if (options.debug) console.log(message)
+    }
+    const nodeGroups = buildNodeGroups(model, planJsonObj, {
+        computeTerraformPlan,
+        detailed: options.detailed,
+        showUnchanged: options.showUnchanged,
+        catalog: options.catalog,
+        showUnknown: options.showUnknown,
+        debugLog
+    })
+    if (comparePlanJsonObj) {
+        setComparisonStates(nodeGroups)
+    }
+    computeConnections(model, nodeGroups)
+    return { nodeGroups, planJsonObj, computeTerraformPlan }
+}
+
+// Writes the diagram, and one diagram for each of the given modules, without a browser
+export const exportNativeSvgs = (options: NativeRenderOptions, modules: string[], outputFolder: string, fileNameSuffix: string) => {
+    const { nodeGroups, computeTerraformPlan } = computeNativeNodeGroups(options)
+    const svg = renderNodeGroupsToSvg(nodeGroups, computeTerraformPlan, options.opacityFull, options.assetsRoot, options.layout, options.groupByTag, options.savedLayout)
+    if (!svg) {
+        console.error("No supported Terraform resources found in graph.")
+        console.error("Please ensure that you have run Inkdrop inside your Terraform project directory, or specify the path to your Terraform project using the --path argument.")
+        process.exit(1)
+    }
+    const diagramPath = path.resolve(outputFolder, "inkdrop-diagram" + fileNameSuffix + ".svg")
+    fs.writeFileSync(diagramPath, svg)
+    console.log(`Downloaded diagram -> ${diagramPath}`)
+
+    modules.forEach((module) => {
+        const moduleIds = Array.from(nodeGroups.keys()).filter((id) => removeModuleKeys(id).startsWith("module." + module + "."))
+        // Connections to resources outside of the module are not drawn
+        const moduleNodeGroups = new Map(moduleIds.map((id) => [id, {
+            ...nodeGroups.get(id)!,
+            connectionsOut: nodeGroups.get(id)!.connectionsOut.filter((connection) => moduleIds.includes(connection)),
+            connectionsIn: nodeGroups.get(id)!.connectionsIn.filter((connection) => moduleIds.includes(connection))
+        }]))
+        const moduleSvg = renderNodeGroupsToSvg(moduleNodeGroups, computeTerraformPlan, options.opacityFull, options.assetsRoot, options.layout, options.groupByTag, options.savedLayout)
+        if (!moduleSvg) {
+            console.warn(`No resources found in module '${module}'. Skipping.`)
+            return
+        }
+        const modulePath = path.resolve(outputFolder, "module." + module + fileNameSuffix + ".svg")
+        fs.writeFileSync(modulePath, moduleSvg)
+        console.log(`Downloaded diagram -> ${modulePath}`)
+    })
+}
@@ -6,7 +6,8 @@ import fs from "fs";
 import ProgressBar from "progress"
 import { openUrl } from "..";
 import { argv } from "../arguments/arguments";
-import { getCurrentFormattedDate } from "../utils/time";
+import { getFileNameSuffix } from "../utils/time";
+import { ExportedSvg, exportPdf, exportPngs, getExportedSvg, getPdfName, getPngScale } from "./exportFormats";
 
 const chromeRevision = "123.0.6312.58"
 
@@ -20,7 +21,7 @@ async function performActionsToDownloadFile(page: Page) {
         if (selectAllButton) {
             await selectAllButton.click();
         } else {
-            console.error("No AWS Terraform resources found in graph.")
+            console.error("No supported Terraform resources found in graph.")
             console.error("Please ensure that you have run Inkdrop inside your Terraform project directory, or specify the path to your Terraform project using the --path argument.")
             process.exit(1)
         }
@@ -59,7 +60,7 @@ let bar: ProgressBar
 // Main Puppeteer logic for extracting SVG
 export async function runHeadlessBrowserAndExportSVG(server: Server, argv: any) {
 
-    console.log("Creating SVG of the diagram...")
+    console.log(`Creating ${((argv as any).format || "svg").toUpperCase()} of the diagram...`)
     const installDir = path.resolve(path.join(process.env.HOME || "", '.cache', 'puppeteer'))
     const installedBrowsers = await getInstalledBrowsers({ cacheDir: installDir })
     if (installedBrowsers.length === 0 || !installedBrowsers.some(b => b.browser === Browser.CHROME && b.buildId === chromeRevision)) {
@@ -98,33 +99,48 @@ export async function runHeadlessBrowserAndExportSVG(server: Server, argv: any)
 
     const client = await page.target().createCDPSession();
 
-    let suggestedFilename = ""
+    const suggestedFilenames = new Map<string, string>()
+    const stableNames = (argv as any).stableNames || false
+    const fileNameSuffix = getFileNameSuffix(stableNames)
+    const outputFormat = (argv as any).format || "svg"
+    const exportedSvgs: ExportedSvg[] = []
 
     const downloadFolder = path.resolve((argv as any).out || (argv as any).path || ".")
     const downloadPath = path.resolve((argv as any).out || (argv as any).path || ".")
 
+    // The downloads are saved under their guid and renamed when completed, so that files from a previous run are overwritten
     await client.send('Browser.setDownloadBehavior', {
-        behavior: 'allow',
+        behavior: 'allowAndName',
         eventsEnabled: true,
         downloadPath: downloadPath,
     })
 
     client.on('Browser.downloadWillBegin', async (event) => {
-        suggestedFilename = event.suggestedFilename;
+        suggestedFilenames.set(event.guid, event.suggestedFilename);
     });
 
     client.on('Browser.downloadProgress', async (event) => {
 
         if (event.state === 'completed') {
-            const newName = suggestedFilename.startsWith("shapes at ") ?
-                suggestedFilename.replace("shapes at ", "inkdrop-diagram_").replace(" ", "_") :
-                suggestedFilename.replace(/(.*)\.svg/g, "$1_" + getCurrentFormattedDate() + ".svg");
-            fs.renameSync(path.resolve(downloadFolder, suggestedFilename),
+            const suggestedFilename = suggestedFilenames.get(event.guid) || ""
+            const { name: newName, title } = getExportedSvg(suggestedFilename, stableNames, fileNameSuffix)
+            fs.renameSync(path.resolve(downloadPath, event.guid),
                 path.resolve(downloadFolder, newName));
-            console.log(`Downloaded diagram -> ${path.resolve(downloadFolder, newName)}`)
+            exportedSvgs.push({
+                path: path.resolve(downloadFolder, newName),
+                title
+            })
+            if (outputFormat === "svg") {
+                console.log(`Downloaded diagram -> ${path.resolve(downloadFolder, newName)}`)
+            }
             if (imgsCount > 1) {
                 imgsCount--
             } else {
+                if (outputFormat === "png") {
+                    await exportPngs(browser, exportedSvgs, getPngScale((argv as any).scale))
+                } else if (outputFormat === "pdf") {
+                    await exportPdf(browser, exportedSvgs, path.resolve(downloadFolder, getPdfName(fileNameSuffix)))
+                }
                 await browser.close();
                 if (ci) {
                     server.close();
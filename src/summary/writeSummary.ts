@@ -0,0 +1,22 @@
+import fs from "fs";
+import path from "path";
+import { computeNativeNodeGroups, NativeRenderOptions } from "../renderer/nativeRenderer";
+import { getPlanSummary, planSummaryToMarkdown } from "../../tldraw-renderer/src/jsonPlanManager/planSummary";
+
+// Writes the per-module and per-category changes of the plan, as JSON and as a Markdown table
+export const writePlanSummary = (options: NativeRenderOptions, outputFolder: string, fileNameSuffix: string) => {
+    const { nodeGroups, planJsonObj } = computeNativeNodeGroups({
+        ...options,
+        detailed: true,
+        showUnchanged: true,
+    })
+    const summary = getPlanSummary(planJsonObj, Array.from(nodeGroups.values()))
+
+    const jsonPath = path.resolve(outputFolder, "inkdrop-summary" + fileNameSuffix + ".json")
+    console.log(`Writing '${path.basename(jsonPath)}'...`)
+    fs.writeFileSync(jsonPath, JSON.stringify(summary, null, 2))
+
+    const markdownPath = path.resolve(outputFolder, "inkdrop-summary" + fileNameSuffix + ".md")
+    console.log(`Writing '${path.basename(markdownPath)}'...`)
+    fs.writeFileSync(markdownPath, planSummaryToMarkdown(summary))
+}
@@ -16,3 +16,8 @@ export function getCurrentFormattedDate() {
 
     return `${year}-${month}-${day}_${hours}-${minutes}-${seconds}`;
 }
+
+// The saved files are named with the current date, unless their names must stay the same between runs
+export function getFileNameSuffix(stableNames: boolean) {
+    return stableNames ? "" : "_" + getCurrentFormattedDate();
+}
@@ -1,68 +1,31 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { NodeShapeUtil } from './board/NodeShape';
 import { Editor, TLStoreOptions, Tldraw, createTLStore, defaultShapeUtils } from '@tldraw/tldraw';
-import Papa from "papaparse"
 import { getAssetUrls } from '@tldraw/assets/selfHosted';
-import { NodeModel, RootGraphModel, SubgraphModel, fromDot } from "ts-graphviz"
-import { terraformResourcesCsv } from './terraformResourcesCsv';
+import { RootGraphModel, fromDot } from "ts-graphviz"
 import '@tldraw/tldraw/tldraw.css'
-import { fetchIsDemo, getRenderInput, sendData, sendDebugLog } from './utils/storage';
+import { fetchIsDemo, getRenderInput, sendData, sendDebugLog, sendLayout } from './utils/storage';
 import ToggleLayers from './layers/ToggleLayers';
-import { computeLayout } from './layout/computeLayout';
+import { computeLayout, getEditorLayout } from './layout/computeLayout';
+import { LayoutType, layoutTypes } from './layout/dagreLayout';
+import { SavedLayout, mergeSavedLayouts } from './layout/savedLayout';
 import { getVariablesAndOutputs } from './dependencies/dependencies';
-import { getResourceNameAndType } from './utils/resources';
 import { filterOutNotNeededArgs } from './utils/filterPlanJson';
 import { demoShapes } from './layout/demoShapes';
 import SelectionHandler from './selection/SelectionHandler';
+import ResourceSearch from './search/ResourceSearch';
 import { getMacroCategory } from './utils/awsCategories';
+import { graphFromPlanJson } from './jsonPlanManager/graphFromPlan';
+import { NodeGroup, TFVariableOutput, Tag } from './parser/types';
+import { buildNodeGroups, collapseModules, computeConnections, expandInstances, getNodeGroupActions } from './parser/parseGraph';
+import { mergeGraphModels, mergePlans, setComparisonStates } from './jsonPlanManager/comparePlans';
+import { PlanAction, planActions } from './jsonPlanManager/jsonPlanManager';
+import { CatalogRow } from './catalog/catalog';
+import { TagFilter, getNodeGroupTags, isSameTagFilter, matchesTagFilters } from './utils/tags';
 
 
 const customShapeUtils = [NodeShapeUtil]
 
-type ResourceState = "no-op" | "create" | "read" | "update" | "delete" | "delete-create" | "create-delete"
-
-export type NodeGroup = {
-    nodes: {
-        nodeModel: NodeModel,
-        name: string,
-        type: string,
-        resourceChanges?: any[]
-    }[],
-    id: string,
-    mainNode: NodeModel,
-    connectionsOut: string[],
-    connectionsIn: string[],
-    variableRefs?: string[],
-    outputRefs?: string[],
-    affectedOutputs?: string[],
-    numberOfChanges: number,
-    name: string,
-    type: string,
-    category: string,
-    iconPath: string,
-    serviceName: string
-    moduleName?: string
-    parentModules: string[]
-    state: ResourceState
-    frameShapeId?: string
-}
-
-export type TFVariableOutput = {
-    name: string,
-    module: string,
-    type: "variable" | "output",
-    expressionReferences: {
-        type: "variable" | "output" | "resource",
-        module: string,
-        name: string
-    }[]
-}
-
-type Tag = {
-    name: string,
-    value: string
-}
-
 type RenderInput = {
     planJson: string,
     graph: string,
@@ -70,21 +33,53 @@ type RenderInput = {
     debug: boolean,
     showUnchanged: boolean,
     ci: boolean,
-    opacityFull: boolean
+    opacityFull: boolean,
+    comparePlanJson?: string,
+    catalog?: CatalogRow[],
+    showUnknown?: boolean,
+    layout?: LayoutType,
+    // Draws a frame per value of this tag instead of per module
+    groupByTag?: string,
+    // Positions arranged by hand in a previous session
+    savedLayout?: SavedLayout
+}
+
+const layoutNames: Record<LayoutType, string> = {
+    tb: "Top to bottom",
+    lr: "Left to right",
+    grid: "Compact grid",
+    force: "Force-directed"
+}
+
+const actionNames: Record<PlanAction, string> = {
+    create: "Create",
+    update: "Update",
+    delete: "Delete",
+    replace: "Replace",
+    read: "Read",
+    "no-op": "No changes"
 }
 
 const assetUrls = getAssetUrls()
 
+// Waits for the end of a drag before saving the layout
+const saveLayoutDelay = 1000
+
 const TLDWrapper = () => {
 
     const [editor, setEditor] = useState<Editor | null>(null)
     const [renderInput, setRenderInput] = useState<RenderInput>()
     const tagsRef = useRef<Tag[]>([])
-    const selectedTagsRef = useRef<string[]>([])
+    const selectedTagsRef = useRef<TagFilter[]>([])
     const initializedRef = useRef<boolean>(false)
     const categoriesRef = useRef<string[]>([])
     const showDebugRef = useRef<boolean>(false)
     const deselectedCategoriesRef = useRef<string[]>([])
+    const deselectedActionsRef = useRef<PlanAction[]>([])
+    const expandedStacksRef = useRef<string[]>([])
+    const collapsedModulesRef = useRef<string[]>([])
+    const showDataSourcesRef = useRef<boolean>(false)
+    const showVariablesRef = useRef<boolean>(false)
     const [sidebarWidth, setSidebarWidth] = useState<number>(0)
     const [shapesSnapshot, setShapesSnapshot] = useState<string>("")
     const [storedNodeGroups, setStoredNodeGroups] = useState<NodeGroup[]>()
@@ -101,10 +96,33 @@ const TLDWrapper = () => {
             debugLog("Unchanged resources are " + (showUnchanged ? "shown" : "hidden") + ".")
         const opacityFull = renderInput.opacityFull
         debugLog("Full opacity for unchanged resources is " + (opacityFull ? "on" : "off") + ".")
-        const model = fromDot(renderInput.graph)
+        const model = getGraphModel(renderInput)
         parseModel(model, false)
     }, [renderInput, editor])
 
+    // Saves the layout when nodes or frames are moved or resized by hand
+    useEffect(() => {
+        if (!editor || !renderInput || renderInput.ci) return
+        let timeout: ReturnType<typeof setTimeout> | undefined
+        const removeListener = editor.store.listen(({ changes }) => {
+            const moved = Object.values(changes.updated).some(([from, to]: [any, any]) => {
+                return (to.type === "node" || to.type === "frame") &&
+                    (from.x !== to.x || from.y !== to.y || from.props?.w !== to.props?.w || from.props?.h !== to.props?.h)
+            })
+            // The positions are saved for the frames of the modules, not for the frames of the tags
+            if (!moved || renderInput.groupByTag) return
+            clearTimeout(timeout)
+            timeout = setTimeout(() => {
+                renderInput.savedLayout = mergeSavedLayouts(renderInput.savedLayout, getEditorLayout(editor, renderInput.layout || "tb"))
+                sendLayout(renderInput.savedLayout)
+            }, saveLayoutDelay)
+        }, { source: "user", scope: "document" })
+        return () => {
+            clearTimeout(timeout)
+            removeListener()
+        }
+    }, [editor, renderInput])
+
     // Forward logs in --debug mode
     useEffect(() => {
         const originalConsoleLog = console.log;
@@ -163,103 +181,24 @@ const TLDWrapper = () => {
         console.log(message)
     }
 
-    const checkHclBlockType = (blockId: string) => {
-        let parentModules: string[] = []
-        let moduleName = ""
-
-        let splitBlockId = blockId.split(".")
-        for (let i = 0; i < splitBlockId.length; i++) {
-            if (splitBlockId[i] === "module") {
-                if (moduleName !== "") {
-                    parentModules.push(moduleName)
-                }
-                moduleName = splitBlockId[i + 1]
-                blockId = splitBlockId.slice(i + 2).join(".")
-            }
-        }
-        const isModule = !blockId && moduleName
-
-
-        const isData = blockId.startsWith("data.")
-        const isVariable = blockId.startsWith("var.")
-        const isLocal = blockId.startsWith("local.")
-        const isOutput = blockId.startsWith("output.")
-        const isProvider = blockId.startsWith("provider[")
-
-        const isResource = blockId.startsWith("aws_")
-
-        if (!isData && !isVariable && !isLocal && !isOutput && !isProvider && !isResource && !isModule) {
-            console.warn("Unknown block type", blockId)
+    // Without a "terraform graph" output, the graph is derived from the plan JSON
+    const getGraphModel = (input?: RenderInput) => {
+        let model: RootGraphModel
+        if (!input?.graph && input?.planJson) {
+            debugLog("No Terraform graph detected. Building the graph from the plan JSON.")
+            model = graphFromPlanJson(parseJson(input.planJson))
+        } else {
+            model = fromDot(input?.graph || "")
         }
-
-        splitBlockId = blockId.split(".")
-        const isResourceWithName = isResource && splitBlockId.length > 1
-        if (!isResource && !isModule) {
-            blockId = splitBlockId.slice(1).join(".")
+        // Resources that only exist in the compared plan are added from its configuration
+        if (input?.comparePlanJson) {
+            model = mergeGraphModels(model, graphFromPlanJson(parseJson(input.comparePlanJson)))
         }
-        return { processedBlockId: blockId, isData, isVariable, isResource, isLocal, isOutput, isProvider, isModule, isResourceWithName, moduleName, parentModules }
+        return model
     }
 
-    const addNodeToGroup = (node: NodeModel, nodeGroups: Map<string, NodeGroup>, mainBlock: boolean, jsonArray?: Papa.ParseResult<unknown>, planJsonObj?: any, computeTerraformPlan?: boolean) => {
-        let centralPart = node.id.split(" ")[1]
-        if (centralPart) {
-            const { processedBlockId, isResourceWithName, moduleName, parentModules } = checkHclBlockType(centralPart)
-
-            if (isResourceWithName) {
-                const { resourceType, resourceName } = getResourceNameAndType(processedBlockId)
-                if (resourceType && resourceName && jsonArray) {
-                    let resourceChanges: any[] = []
-                    if (computeTerraformPlan) {
-
-                        resourceChanges = planJsonObj.resource_changes.filter((resource: any) => {
-                            return resource.address === node.id.split(" ")[1] || resource.address.startsWith(node.id.split(" ")[1] + "[")
-                        })
-                    }
-
-                    let numberOfChanges = 0
-
-                    // Determine a general state, given all the actions
-                    let generalState = "no-op"
-                    resourceChanges?.forEach((resourceChange) => {
-                        const newState = resourceChange.change.actions.join("-")
-                        numberOfChanges += ["no-op", "read"].includes(newState) ? 0 : 1
-                        generalState = newState !== generalState ?
-                            (["no-op", "read"].includes(newState) && ["no-op", "read"].includes(generalState)) ? "read" :
-                                ["no-op", "read"].includes(generalState) ? newState : "update" : newState
-                    })
-
-
-                    jsonArray.data.forEach((row: any) => {
-                        if (row[mainBlock ? "Main Diagram Blocks" : "Missing Resources"].split(",").some((s: string) => s === resourceType)) {
-                            debugLog("Adding main resource: " + node.id.split(" ")[1])
-                            nodeGroups.set(node.id.split(" ")[1], {
-                                nodes: [{
-                                    nodeModel: node,
-                                    name: resourceName,
-                                    type: resourceType,
-                                    resourceChanges: resourceChanges
-                                }],
-                                id: node.id.split(" ")[1],
-                                mainNode: node,
-                                category: row["Simplified Category"],
-                                name: resourceName,
-                                state: resourceChanges.length > 0 ? generalState as ResourceState : "no-op",
-                                type: resourceType,
-                                parentModules: parentModules,
-                                numberOfChanges: numberOfChanges,
-                                serviceName: row["Service Name"],
-                                iconPath: row["Icon Path"].trim(),
-                                connectionsIn: [],
-                                connectionsOut: [],
-                                moduleName: moduleName
-                            })
-                        }
-                    })
-
-                }
-            }
-        }
-
+    const parseJson = (json: any) => {
+        return typeof json === "string" ? JSON.parse(json) : json
     }
 
     const findAndSetCategories = (nodeGroups: Map<string, NodeGroup>) => {
@@ -285,20 +224,8 @@ const TLDWrapper = () => {
 
     const findAndSetTags = (nodeGroups: Map<string, NodeGroup>) => {
         const tags: Tag[] = []
-        nodeGroups.forEach((nodeGroup, key) => {
-            nodeGroup.nodes.forEach((node) => {
-                if (node.resourceChanges && node.resourceChanges.length > 0) {
-                    const resourceChanges = node.resourceChanges
-                    resourceChanges.forEach((resourceChange) => {
-                        const tagsToAdd = Object.entries(resourceChange.change?.after?.tags_all || {}).map(([key, value]) => {
-                            return { name: key as string, value: value as string }
-                        })
-                        if (tagsToAdd) {
-                            tags.push(...tagsToAdd)
-                        }
-                    })
-                }
-            })
+        nodeGroups.forEach((nodeGroup) => {
+            tags.push(...getNodeGroupTags(nodeGroup))
         })
         tagsRef.current = tags
     }
@@ -306,88 +233,18 @@ const TLDWrapper = () => {
     const parseModel = async (model: RootGraphModel, refreshFromToggle?: boolean) => {
         const computeTerraformPlan = (renderInput?.planJson && renderInput?.planJson !== "") ? true : false
         debugLog(computeTerraformPlan ? "Terraform plan detected." : "No Terraform plan detected. Using static data.")
-        const planJsonObj = filterOutNotNeededArgs(computeTerraformPlan ?
-            typeof renderInput?.planJson === "string" ? JSON.parse(renderInput?.planJson!) : renderInput?.planJson : undefined)
-        const nodeGroups = new Map<string, NodeGroup>()
-        const jsonArray = Papa.parse(terraformResourcesCsv, { delimiter: ",", header: true })
-        debugLog("Adding main resources...")
-        model.subgraphs.forEach((subgraph) => {
-            subgraph.nodes.forEach((node) => {
-                addNodeToGroup(node, nodeGroups, true, jsonArray, planJsonObj, computeTerraformPlan)
-            })
+        const planJsonObj = computeTerraformPlan && renderInput?.comparePlanJson ?
+            mergePlans(filterOutNotNeededArgs(parseJson(renderInput.planJson)), filterOutNotNeededArgs(parseJson(renderInput.comparePlanJson))) :
+            filterOutNotNeededArgs(computeTerraformPlan ? parseJson(renderInput?.planJson) : undefined)
+        const nodeGroups = buildNodeGroups(model, planJsonObj, {
+            computeTerraformPlan,
+            detailed: renderInput?.detailed || false,
+            showUnchanged: renderInput?.showUnchanged || false,
+            catalog: renderInput?.catalog,
+            showUnknown: renderInput?.showUnknown || false,
+            showDataSources: showDataSourcesRef.current,
+            debugLog
         })
-        debugLog("Adding main resources... Done.")
-
-        debugLog("Aggregating secondary resources...")
-        nodeGroups.forEach((nodeGroup) => {
-            getConnectedNodes(nodeGroup.mainNode, nodeGroup, nodeGroups, model.subgraphs[0], true, jsonArray, planJsonObj)
-            getConnectedNodes(nodeGroup.mainNode, nodeGroup, nodeGroups, model.subgraphs[0], false, jsonArray, planJsonObj)
-        })
-        debugLog("Aggregating secondary resources... Done.")
-
-        if (renderInput?.detailed) {
-            debugLog("Adding unconnected resources (detailed view)...")
-            // Add a nodeGroup for each node that is not connected to any other node
-            model.subgraphs[0].nodes.forEach((node) => {
-                if (!Array.from(nodeGroups.values()).some((group) => {
-                    return group.nodes.some((n) => {
-                        return n.nodeModel.id === node.id
-                    })
-                })) {
-                    addNodeToGroup(node, nodeGroups, false, jsonArray, planJsonObj, computeTerraformPlan)
-                }
-            })
-            debugLog("Adding unconnected resources (detailed view)... Done.")
-        }
-
-        if (computeTerraformPlan) {
-            debugLog("Removing inactive resources...")
-            // Remove nodeGroups whose first node has no resourceChanges
-            Array.from(nodeGroups.keys()).forEach((key) => {
-                const nodeGroup = nodeGroups.get(key)
-                if (nodeGroup && nodeGroup.nodes[0].resourceChanges && nodeGroup.nodes[0].resourceChanges.length === 0) {
-                    debugLog("Removing inactive main resource: " + nodeGroup.id)
-                    nodeGroups.delete(key)
-                }
-            })
-            // Remove nodes whose resourceChanges are empty
-            nodeGroups.forEach((nodeGroup) => {
-                nodeGroup.nodes = nodeGroup.nodes.filter((node) => {
-                    const keep = node.resourceChanges && node.resourceChanges.length > 0
-                    if (!keep) {
-                        debugLog("Removing inactive secondary resource: " + node.nodeModel.id.split(" ")[1])
-                    }
-                    return keep
-                })
-            })
-            debugLog("Removing inactive resources... Done.")
-        }
-
-        if (!renderInput?.showUnchanged && computeTerraformPlan) {
-            debugLog("Removing unchanged resources...")
-            // Remove nodeGroups whose first node has no resourceChanges
-            Array.from(nodeGroups.keys()).forEach((key) => {
-                const nodeGroup = nodeGroups.get(key)
-                if (nodeGroup && nodeGroup.numberOfChanges === 0) {
-                    debugLog("Removing unchanged main resource: " + nodeGroup.id)
-                    nodeGroups.delete(key)
-                }
-            })
-            // Remove nodes whose resourceChanges are empty
-            nodeGroups.forEach((nodeGroup) => {
-                nodeGroup.nodes = nodeGroup.nodes.filter((node) => {
-                    const keep = node.resourceChanges && node.resourceChanges.some((resourceChange) => {
-                        const actions = resourceChange.change.actions
-                        return actions.length > 0 && actions.some((action: string) => action !== "no-op" && action !== "read")
-                    })
-                    if (!keep) {
-                        debugLog("Removing unchanged secondary resource: " + node.nodeModel.id.split(" ")[1])
-                    }
-                    return keep
-                })
-            })
-            debugLog("Removing unchanged resources... Done.")
-        }
 
         findAndSetCategories(nodeGroups)
         // Remove nodeGroups whose category is not selected
@@ -398,55 +255,42 @@ const TLDWrapper = () => {
             }
         })
 
+        if (computeTerraformPlan && deselectedActionsRef.current.length > 0) {
+            // Remove nodeGroups whose actions, and the actions of their secondary resources, are all deselected
+            Array.from(nodeGroups.keys()).forEach((key) => {
+                const nodeGroup = nodeGroups.get(key)
+                if (nodeGroup && getNodeGroupActions(nodeGroup).every((action) => deselectedActionsRef.current.includes(action))) {
+                    nodeGroups.delete(key)
+                }
+            })
+        }
+
         findAndSetTags(nodeGroups)
         if (selectedTagsRef.current.length > 0) {
             // Remove nodeGroups whose tags are not selected
             Array.from(nodeGroups.keys()).forEach((key) => {
                 const nodeGroup = nodeGroups.get(key)
-                if (nodeGroup && !nodeGroup.nodes.some((node) => {
-                    return node.resourceChanges && node.resourceChanges.some((resourceChange) => {
-                        return resourceChange.change?.after?.tags_all && Object.entries(resourceChange.change?.after?.tags_all || {}).some(([key, value]) => {
-                            return selectedTagsRef.current.includes(key)
-                        })
-                    })
-                })) {
+                if (nodeGroup && !matchesTagFilters(nodeGroup, selectedTagsRef.current)) {
                     nodeGroups.delete(key)
                 }
             })
         }
 
         debugLog("Computing connections...")
-        // Compute connections between groups
-        model.subgraphs[0].edges.forEach((edge) => {
-            const edgeFromId = (edge.targets[0] as any).id
-            const edgeToId = (edge.targets[1] as any).id
-
-            const fromGroup = Array.from(nodeGroups).filter(([id, group]) => {
-                return group.nodes.some((n) => {
-                    return n.nodeModel.id === edgeFromId
-                })
-            })[0]
-            const toGroup = Array.from(nodeGroups).filter(([id, group]) => {
-                return group.nodes.some((n) => {
-                    return n.nodeModel.id === edgeToId
-                })
-            })[0]
-            if (fromGroup && toGroup && fromGroup !== toGroup) {
-                const fromGroupKey = fromGroup[0]
-                const toGroupKey = toGroup[0]
-                if (!fromGroup[1].connectionsIn.includes(toGroupKey) && !toGroup[1].connectionsOut.includes(fromGroupKey)) {
-                    fromGroup[1].connectionsIn.push(toGroupKey)
-                    toGroup[1].connectionsOut.push(fromGroupKey)
-                }
-            }
-        })
+        computeConnections(model, nodeGroups)
         debugLog("Computing connections... Done.")
+        expandInstances(nodeGroups, expandedStacksRef.current)
+        collapseModules(nodeGroups, collapsedModulesRef.current)
+        if (renderInput?.comparePlanJson) {
+            setComparisonStates(nodeGroups)
+        }
 
         const { variables, outputs } = computeTerraformPlan ? getVariablesAndOutputs(nodeGroups, planJsonObj) :
             { variables: [], outputs: [] }
         setVariables(variables)
         setOutputs(outputs)
-        computeLayout(nodeGroups, computeTerraformPlan, editor, renderInput?.opacityFull || false)
+        computeLayout(nodeGroups, computeTerraformPlan, editor, renderInput?.opacityFull || false, renderInput?.layout || "tb", renderInput?.groupByTag,
+            renderInput?.savedLayout, showVariablesRef.current ? { variables, outputs } : undefined)
         setShapesSnapshot(JSON.stringify(editor?.getCurrentPageShapes()))
 
         const isDemo = await fetchIsDemo()
@@ -468,77 +312,9 @@ const TLDWrapper = () => {
     }
 
 
-    const getConnectedNodes = (node: NodeModel, nodeGroup: NodeGroup, nodeGroups: Map<string, NodeGroup>, subgraph: SubgraphModel, start: boolean, jsonArray: Papa.ParseResult<unknown>, planJsonObj: any) => {
-        subgraph.edges.filter((e) => {
-            return (e.targets[start ? 0 : 1] as any).id === node.id
-        }).forEach((edge, index) => {
-
-            const edgeToId = (edge.targets[start ? 1 : 0] as any).id
-            let centralPart = edgeToId.split(" ")[1]
-            if (centralPart) {
-                const { isResourceWithName, processedBlockId, isData } = checkHclBlockType(centralPart)
-
-                if (isResourceWithName || isData) {
-                    const { resourceType, resourceName } = getResourceNameAndType(processedBlockId)
-                    const isNodePresent = Array.from(nodeGroups.values()).some((group) => {
-                        return group.nodes.some((n) => {
-                            return n.nodeModel.id === (edge.targets[start ? 1 : 0] as any).id
-                        })
-                    })
-                    if (resourceType && resourceName && jsonArray && !isNodePresent &&
-                        jsonArray.data.some((row: any) => {
-                            return row["Main Diagram Blocks"].split(",").some((s: string) => s === nodeGroup.type) &&
-                                (row["Missing Resources"].split(",").some((s: string) => s === resourceType) ||
-                                    row["Data Sources"].split(",").some((s: string) => s === resourceType))
-                        })) {
-                        const newNode = subgraph.nodes.filter((n) => { return n.id === (edge.targets[start ? 1 : 0] as any).id })[0]
-                        if (newNode) {
-
-                            let resourceChanges: any[] = []
-                            if (planJsonObj) {
-
-                                resourceChanges = planJsonObj.resource_changes.filter((resource: any) => {
-                                    return resource.address === newNode.id.split(" ")[1] || resource.address.startsWith(newNode.id.split(" ")[1] + "[")
-                                })
-                            }
-
-                            let numberOfChanges = 0
-
-                            // Determine a general state, given all the actions
-                            let generalState = "no-op"
-                            resourceChanges?.forEach((resourceChange) => {
-                                const newState = resourceChange.change.actions.join("-")
-                                numberOfChanges += ["no-op", "read"].includes(newState) ? 0 : 1
-                                generalState = newState !== generalState ?
-                                    (["no-op", "read"].includes(newState) && ["no-op", "read"].includes(generalState)) ? "read" : "update" : newState
-                            })
-
-                            nodeGroup.numberOfChanges += numberOfChanges
-
-                            debugLog("Aggregating resource: " + newNode.id.split(" ")[1] + "\t->\t" + nodeGroup.id)
-
-                            nodeGroup.nodes.push({
-                                nodeModel: newNode,
-                                name: resourceName,
-                                type: resourceType,
-                                resourceChanges: resourceChanges
-                            })
-
-                            nodeGroup.state = nodeGroup.state !== "no-op" || !planJsonObj ? nodeGroup.state :
-                                generalState !== "no-op" ? "update" : generalState
-                            getConnectedNodes(newNode, nodeGroup, nodeGroups, subgraph, start, jsonArray, planJsonObj)
-                            getConnectedNodes(newNode, nodeGroup, nodeGroups, subgraph, !start, jsonArray, planJsonObj)
-                        }
-
-                    }
-                }
-            }
-        })
-    }
-
     const refreshWhiteboard = (fromToggle: boolean) => {
         editor?.deleteShapes(Array.from(editor.getPageShapeIds(editor.getCurrentPageId())))
-        const model = fromDot(renderInput?.graph || "")
+        const model = getGraphModel(renderInput)
         parseModel(model, fromToggle)
     }
 
@@ -552,6 +328,26 @@ const TLDWrapper = () => {
         refreshWhiteboard(true)
     }
 
+    const setLayout = (layout: LayoutType) => {
+        renderInput!.layout = layout
+        refreshWhiteboard(true)
+    }
+
+    const setGroupByTag = (tagName: string | undefined) => {
+        renderInput!.groupByTag = tagName
+        refreshWhiteboard(true)
+    }
+
+    const toggleDataSources = () => {
+        showDataSourcesRef.current = !showDataSourcesRef.current
+        refreshWhiteboard(true)
+    }
+
+    const toggleVariables = () => {
+        showVariablesRef.current = !showVariablesRef.current
+        refreshWhiteboard(true)
+    }
+
     const toggleCategory = (category: string) => {
         if (deselectedCategoriesRef.current.includes(category)) {
             deselectedCategoriesRef.current = deselectedCategoriesRef.current.filter((cat) => {
@@ -563,20 +359,62 @@ const TLDWrapper = () => {
         refreshWhiteboard(true)
     }
 
-    const toggleTag = (tag: string) => {
-        if (selectedTagsRef.current.includes(tag)) {
+    const toggleAction = (action: PlanAction) => {
+        if (deselectedActionsRef.current.includes(action)) {
+            deselectedActionsRef.current = deselectedActionsRef.current.filter((a) => {
+                return a !== action
+            })
+        } else {
+            deselectedActionsRef.current.push(action)
+        }
+        refreshWhiteboard(true)
+    }
+
+    const toggleTag = (tagFilter: TagFilter) => {
+        if (selectedTagsRef.current.some((t) => isSameTagFilter(t, tagFilter))) {
             selectedTagsRef.current = selectedTagsRef.current.filter((t) => {
-                return t !== tag
+                return !isSameTagFilter(t, tagFilter)
+            })
+        } else {
+            selectedTagsRef.current.push(tagFilter)
+        }
+        refreshWhiteboard(true)
+    }
+
+
+    const getTagNames = () => {
+        return Array.from(new Set(tagsRef.current.map((tag) => tag.name))).sort()
+    }
+
+    const getTagValues = (tagName: string) => {
+        return Array.from(new Set(tagsRef.current.filter((tag) => tag.name === tagName).map((tag) => tag.value))).sort()
+    }
+
+    const toggleInstances = (stackId: string) => {
+        if (expandedStacksRef.current.includes(stackId)) {
+            expandedStacksRef.current = expandedStacksRef.current.filter((id) => {
+                return id !== stackId
             })
         } else {
-            selectedTagsRef.current.push(tag)
+            expandedStacksRef.current.push(stackId)
         }
         refreshWhiteboard(true)
     }
 
+    const toggleModule = (modulePath: string) => {
+        if (collapsedModulesRef.current.includes(modulePath)) {
+            collapsedModulesRef.current = collapsedModulesRef.current.filter((path) => {
+                return path !== modulePath
+            })
+        } else {
+            collapsedModulesRef.current.push(modulePath)
+        }
+        refreshWhiteboard(true)
+    }
 
     const setShowSidebar = (value: boolean) => {
-        setSidebarWidth(value ? 24 : 0)
+        // The comparison shows both plans side by side, so it needs a wider sidebar
+        setSidebarWidth(value ? renderInput?.comparePlanJson ? 40 : 24 : 0)
     }
 
 
@@ -613,6 +451,57 @@ const TLDWrapper = () => {
                                     },
                                 ]
                             },
+                            {
+                                name: "Layout",
+                                items: layoutTypes.map((layout) => {
+                                    return {
+                                        name: layoutNames[layout],
+                                        value: (renderInput?.layout || "tb") === layout,
+                                        action: () => {
+                                            setLayout(layout)
+                                        }
+                                    }
+                                })
+                            },
+                            {
+                                name: "Group by",
+                                items: [undefined, ...getTagNames()].map((tagName) => {
+                                    return {
+                                        name: tagName === undefined ? "Modules" : "Tag " + tagName,
+                                        value: renderInput?.groupByTag === tagName,
+                                        action: () => {
+                                            setGroupByTag(tagName)
+                                        }
+                                    }
+                                })
+                            },
+                            {
+                                name: "Layers",
+                                items: [
+                                    {
+                                        name: "Data sources",
+                                        value: showDataSourcesRef.current,
+                                        action: toggleDataSources
+                                    },
+                                    {
+                                        name: "Variables, locals and outputs",
+                                        value: showVariablesRef.current,
+                                        action: toggleVariables
+                                    },
+                                ]
+                            },
+                            ...(renderInput?.planJson ? [{
+                                name: "Actions",
+                                items: planActions.map((action) => {
+                                    return {
+                                        name: actionNames[action],
+                                        value: !deselectedActionsRef.current.includes(action),
+                                        action: () => {
+                                            toggleAction(action)
+                                        }
+                                    }
+                                })
+                            }] : []),
                             {
                                 name: "Categories",
                                 items:
@@ -627,18 +516,18 @@ const TLDWrapper = () => {
                                     })
                             }, {
                                 name: "Tags",
-                                items:
-                                    tagsRef.current.map((tag) => tag.name).filter((tag, index, self) => {
-                                        return self.indexOf(tag) === index
-                                    }).map((tag) => {
-                                        return {
-                                            name: tag,
-                                            value: selectedTagsRef.current.includes(tag),
-                                            action: () => {
-                                                toggleTag(tag)
-                                            }
+                                // Each tag with any value, followed by each of its values
+                                items: getTagNames().map((tagName) => {
+                                    return [{ name: tagName }, ...getTagValues(tagName).map((value) => ({ name: tagName, value }))]
+                                }).flat().map((tagFilter: TagFilter) => {
+                                    return {
+                                        name: tagFilter.value === undefined ? tagFilter.name : tagFilter.name + "=" + tagFilter.value,
+                                        value: selectedTagsRef.current.some((t) => isSameTagFilter(t, tagFilter)),
+                                        action: () => {
+                                            toggleTag(tagFilter)
                                         }
-                                    })
+                                    }
+                                })
                             }
                         ]
                     } />
@@ -653,9 +542,18 @@ const TLDWrapper = () => {
                     setShowSidebar={setShowSidebar}
                     shapesSnapshot={shapesSnapshot}
                     hasPlanJson={renderInput?.planJson ? true : false}
+                    isCompare={renderInput?.comparePlanJson ? true : false}
+                    toggleInstances={toggleInstances}
+                    toggleModule={toggleModule}
                     variables={variables}
                     outputs={outputs} />
             }
+            {editor &&
+                <ResourceSearch
+                    editor={editor}
+                    nodeGroups={storedNodeGroups}
+                    sidebarWidth={sidebarWidth} />
+            }
         </div>
     );
 };
@@ -0,0 +1,38 @@
+// The Azure icons are drawn from Material Design Icons and Simple Icons, see public/Icons/Azure/NOTICE.md
+export const azurermResourcesCsv = `Service Name,Main Diagram Blocks,Arguments For Name,Missing Resources,Data Sources,Category,Icon Path,Simplified Category
+API Management,azurerm_api_management,name,"azurerm_api_management_api,azurerm_api_management_api_operation,azurerm_api_management_api_policy,azurerm_api_management_product,azurerm_api_management_product_api,azurerm_api_management_backend,azurerm_api_management_named_value,azurerm_api_management_logger","azurerm_api_management,azurerm_api_management_api,azurerm_api_management_product",Integration,Icons/Azure/48/Azure_API-Management_48.svg,API Management
+App Service,"azurerm_linux_web_app,azurerm_windows_web_app,azurerm_service_plan","name,name,name","azurerm_linux_web_app_slot,azurerm_windows_web_app_slot,azurerm_app_service_custom_hostname_binding,azurerm_app_service_certificate_binding,azurerm_app_service_virtual_network_swift_connection,azurerm_app_service_source_control","azurerm_linux_web_app,azurerm_windows_web_app,azurerm_service_plan",Web,Icons/Azure/48/Azure_App-Service_48.svg,Compute
+Application Gateway,azurerm_application_gateway,name,azurerm_web_application_firewall_policy,"azurerm_application_gateway,azurerm_web_application_firewall_policy",Networking,Icons/Azure/48/Azure_Application-Gateway_48.svg,Networking
+Application Insights,azurerm_application_insights,name,"azurerm_application_insights_web_test,azurerm_application_insights_standard_web_test,azurerm_application_insights_api_key",azurerm_application_insights,Management Governance,Icons/Azure/48/Azure_Application-Insights_48.svg,Monitoring
+Cache for Redis,azurerm_redis_cache,name,"azurerm_redis_firewall_rule,azurerm_redis_linked_server",azurerm_redis_cache,Databases,Icons/Azure/48/Azure_Cache-for-Redis_48.svg,In-Memory Database
+Container Apps,"azurerm_container_app,azurerm_container_app_environment","name,name","azurerm_container_app_environment_storage,azurerm_container_app_environment_certificate,azurerm_container_app_environment_dapr_component","azurerm_container_app,azurerm_container_app_environment",Containers,Icons/Azure/48/Azure_Container-Apps_48.svg,Compute
+Container Instances,azurerm_container_group,name,,azurerm_container_group,Containers,Icons/Azure/48/Azure_Container-Instances_48.svg,Compute
+Container Registry,azurerm_container_registry,name,"azurerm_container_registry_webhook,azurerm_container_registry_scope_map,azurerm_container_registry_token,azurerm_container_registry_task",azurerm_container_registry,Containers,Icons/Azure/48/Azure_Container-Registry_48.svg,Container Registry
+Cosmos DB,azurerm_cosmosdb_account,name,"azurerm_cosmosdb_sql_database,azurerm_cosmosdb_sql_container,azurerm_cosmosdb_sql_role_assignment,azurerm_cosmosdb_mongo_database,azurerm_cosmosdb_mongo_collection,azurerm_cosmosdb_table","azurerm_cosmosdb_account,azurerm_cosmosdb_sql_database,azurerm_cosmosdb_mongo_database",Databases,Icons/Azure/48/Azure_Cosmos-DB_48.svg,NoSQL Database
+Data Factory,azurerm_data_factory,name,"azurerm_data_factory_pipeline,azurerm_data_factory_trigger_schedule,azurerm_data_factory_integration_runtime_azure,azurerm_data_factory_linked_service_azure_blob_storage,azurerm_data_factory_linked_service_azure_sql_database,azurerm_data_factory_dataset_parquet",azurerm_data_factory,Analytics,Icons/Azure/48/Azure_Data-Factory_48.svg,Data Integration
+Database for MySQL,azurerm_mysql_flexible_server,name,"azurerm_mysql_flexible_database,azurerm_mysql_flexible_server_firewall_rule,azurerm_mysql_flexible_server_configuration",azurerm_mysql_flexible_server,Databases,Icons/Azure/48/Azure_Database-for-MySQL_48.svg,Databases
+Database for PostgreSQL,azurerm_postgresql_flexible_server,name,"azurerm_postgresql_flexible_server_database,azurerm_postgresql_flexible_server_firewall_rule,azurerm_postgresql_flexible_server_configuration,azurerm_postgresql_flexible_server_active_directory_administrator",azurerm_postgresql_flexible_server,Databases,Icons/Azure/48/Azure_Database-for-PostgreSQL_48.svg,Databases
+DNS,"azurerm_dns_zone,azurerm_private_dns_zone","name,name","azurerm_dns_a_record,azurerm_dns_aaaa_record,azurerm_dns_cname_record,azurerm_dns_mx_record,azurerm_dns_ns_record,azurerm_dns_txt_record,azurerm_private_dns_a_record,azurerm_private_dns_cname_record,azurerm_private_dns_zone_virtual_network_link","azurerm_dns_zone,azurerm_private_dns_zone",Networking,Icons/Azure/48/Azure_DNS_48.svg,DNS
+Event Grid,"azurerm_eventgrid_topic,azurerm_eventgrid_system_topic,azurerm_eventgrid_domain","name,name,name","azurerm_eventgrid_event_subscription,azurerm_eventgrid_system_topic_event_subscription,azurerm_eventgrid_domain_topic","azurerm_eventgrid_topic,azurerm_eventgrid_system_topic,azurerm_eventgrid_domain",Integration,Icons/Azure/48/Azure_Event-Grid_48.svg,Application Integration
+Event Hubs,azurerm_eventhub_namespace,name,"azurerm_eventhub,azurerm_eventhub_consumer_group,azurerm_eventhub_authorization_rule,azurerm_eventhub_namespace_authorization_rule","azurerm_eventhub_namespace,azurerm_eventhub,azurerm_eventhub_consumer_group",Analytics,Icons/Azure/48/Azure_Event-Hubs_48.svg,Data Streaming
+Firewall,azurerm_firewall,name,"azurerm_firewall_policy,azurerm_firewall_policy_rule_collection_group,azurerm_firewall_network_rule_collection,azurerm_firewall_application_rule_collection,azurerm_firewall_nat_rule_collection","azurerm_firewall,azurerm_firewall_policy",Security,Icons/Azure/48/Azure_Firewall_48.svg,Web Security
+Front Door,azurerm_cdn_frontdoor_profile,name,"azurerm_cdn_frontdoor_endpoint,azurerm_cdn_frontdoor_origin_group,azurerm_cdn_frontdoor_origin,azurerm_cdn_frontdoor_route,azurerm_cdn_frontdoor_custom_domain,azurerm_cdn_frontdoor_rule_set,azurerm_cdn_frontdoor_rule,azurerm_cdn_frontdoor_security_policy,azurerm_cdn_frontdoor_firewall_policy","azurerm_cdn_frontdoor_profile,azurerm_cdn_frontdoor_endpoint",Networking,Icons/Azure/48/Azure_Front-Door_48.svg,Content Delivery
+Functions,"azurerm_linux_function_app,azurerm_windows_function_app","name,name","azurerm_linux_function_app_slot,azurerm_windows_function_app_slot,azurerm_function_app_function","azurerm_linux_function_app,azurerm_windows_function_app",Compute,Icons/Azure/48/Azure_Functions_48.svg,Compute
+Key Vault,azurerm_key_vault,name,"azurerm_key_vault_secret,azurerm_key_vault_key,azurerm_key_vault_certificate,azurerm_key_vault_access_policy","azurerm_key_vault,azurerm_key_vault_secret,azurerm_key_vault_key,azurerm_key_vault_certificate,azurerm_key_vault_access_policy",Security,Icons/Azure/48/Azure_Key-Vault_48.svg,Secrets Management
+Kubernetes Service,azurerm_kubernetes_cluster,name,"azurerm_kubernetes_cluster_node_pool,azurerm_kubernetes_cluster_extension","azurerm_kubernetes_cluster,azurerm_kubernetes_cluster_node_pool,azurerm_kubernetes_service_versions",Containers,Icons/Azure/48/Azure_Kubernetes-Service_48.svg,Container Orchestration
+Load Balancer,azurerm_lb,name,"azurerm_lb_backend_address_pool,azurerm_lb_backend_address_pool_address,azurerm_lb_probe,azurerm_lb_rule,azurerm_lb_nat_rule,azurerm_lb_nat_pool,azurerm_lb_outbound_rule","azurerm_lb,azurerm_lb_backend_address_pool,azurerm_lb_rule",Networking,Icons/Azure/48/Azure_Load-Balancer_48.svg,Networking
+Log Analytics,azurerm_log_analytics_workspace,name,"azurerm_log_analytics_solution,azurerm_log_analytics_saved_search",azurerm_log_analytics_workspace,Management Governance,Icons/Azure/48/Azure_Log-Analytics_48.svg,Logging
+Managed Identities,azurerm_user_assigned_identity,name,azurerm_federated_identity_credential,azurerm_user_assigned_identity,Identity,Icons/Azure/48/Azure_Managed-Identities_48.svg,IAM
+Monitor,"azurerm_monitor_action_group,azurerm_monitor_metric_alert,azurerm_monitor_scheduled_query_rules_alert_v2","name,name,name","azurerm_monitor_activity_log_alert,azurerm_monitor_autoscale_setting","azurerm_monitor_action_group,azurerm_monitor_diagnostic_categories",Management Governance,Icons/Azure/48/Azure_Monitor_48.svg,Monitoring
+NAT Gateway,azurerm_nat_gateway,name,"azurerm_nat_gateway_public_ip_association,azurerm_nat_gateway_public_ip_prefix_association",azurerm_nat_gateway,Networking,Icons/Azure/48/Azure_NAT-Gateway_48.svg,Networking
+Network Security Groups,azurerm_network_security_group,name,"azurerm_network_security_rule,azurerm_application_security_group","azurerm_network_security_group,azurerm_application_security_group",Networking,Icons/Azure/48/Azure_Network-Security-Groups_48.svg,Networking
+Private Link,"azurerm_private_endpoint,azurerm_private_link_service","name,name",azurerm_private_endpoint_application_security_group_association,"azurerm_private_endpoint_connection,azurerm_private_link_service",Networking,Icons/Azure/48/Azure_Private-Link_48.svg,Networking
+Public IP Addresses,"azurerm_public_ip,azurerm_public_ip_prefix","name,name",,"azurerm_public_ip,azurerm_public_ips,azurerm_public_ip_prefix",Networking,Icons/Azure/48/Azure_Public-IP-Addresses_48.svg,Networking
+Role Definitions,azurerm_role_definition,name,azurerm_role_assignment,azurerm_role_definition,Identity,Icons/Azure/48/Azure_Role-Definitions_48.svg,IAM
+Service Bus,azurerm_servicebus_namespace,name,"azurerm_servicebus_queue,azurerm_servicebus_topic,azurerm_servicebus_subscription,azurerm_servicebus_subscription_rule,azurerm_servicebus_namespace_authorization_rule,azurerm_servicebus_queue_authorization_rule,azurerm_servicebus_topic_authorization_rule","azurerm_servicebus_namespace,azurerm_servicebus_queue,azurerm_servicebus_topic",Integration,Icons/Azure/48/Azure_Service-Bus_48.svg,Message Queuing
+SQL Database,"azurerm_mssql_server,azurerm_mssql_database","name,name","azurerm_mssql_firewall_rule,azurerm_mssql_virtual_network_rule,azurerm_mssql_elasticpool,azurerm_mssql_server_extended_auditing_policy,azurerm_mssql_database_extended_auditing_policy","azurerm_mssql_server,azurerm_mssql_database,azurerm_mssql_elasticpool",Databases,Icons/Azure/48/Azure_SQL-Database_48.svg,Databases
+Storage Account,azurerm_storage_account,name,"azurerm_storage_container,azurerm_storage_blob,azurerm_storage_queue,azurerm_storage_share,azurerm_storage_table,azurerm_storage_management_policy,azurerm_storage_account_network_rules,azurerm_storage_account_customer_managed_key","azurerm_storage_account,azurerm_storage_container,azurerm_storage_account_sas",Storage,Icons/Azure/48/Azure_Storage-Account_48.svg,Storage
+Virtual Machine Scale Sets,"azurerm_linux_virtual_machine_scale_set,azurerm_windows_virtual_machine_scale_set,azurerm_orchestrated_virtual_machine_scale_set","name,name,name",azurerm_virtual_machine_scale_set_extension,azurerm_virtual_machine_scale_set,Compute,Icons/Azure/48/Azure_Virtual-Machine-Scale-Sets_48.svg,Compute
+Virtual Machines,"azurerm_linux_virtual_machine,azurerm_windows_virtual_machine,azurerm_virtual_machine","name,name,name","azurerm_network_interface,azurerm_network_interface_security_group_association,azurerm_network_interface_backend_address_pool_association,azurerm_managed_disk,azurerm_virtual_machine_data_disk_attachment,azurerm_virtual_machine_extension,azurerm_availability_set,azurerm_dev_test_global_vm_shutdown_schedule","azurerm_virtual_machine,azurerm_managed_disk,azurerm_network_interface,azurerm_platform_image,azurerm_shared_image_version",Compute,Icons/Azure/48/Azure_Virtual-Machines_48.svg,Compute
+Virtual Network,azurerm_virtual_network,name,"azurerm_subnet,azurerm_subnet_network_security_group_association,azurerm_subnet_route_table_association,azurerm_subnet_nat_gateway_association,azurerm_virtual_network_peering,azurerm_route_table,azurerm_route","azurerm_virtual_network,azurerm_subnet,azurerm_route_table",Networking,Icons/Azure/48/Azure_Virtual-Network_48.svg,Networking
+VPN Gateway,azurerm_virtual_network_gateway,name,"azurerm_virtual_network_gateway_connection,azurerm_local_network_gateway","azurerm_virtual_network_gateway,azurerm_local_network_gateway",Networking,Icons/Azure/48/Azure_VPN-Gateway_48.svg,Networking`
\ No newline at end of file
@@ -7,6 +7,9 @@ import {
     TLBaseShape,
 } from '@tldraw/tldraw'
 import { truncateText } from './shapeUtils'
+import { getComparisonColor, getComparisonLabel } from '../jsonPlanManager/comparePlans'
+import { ChangesBreakdown } from '../jsonPlanManager/jsonPlanManager'
+import ChangesBadge from '../sidebar/ChangesBadge'
 
 // Define a style that can be used across multiple shapes.
 // The ID (myApp:filter) must be globally unique, so we recommend prefixing it with a namespace.
@@ -23,6 +26,12 @@ export type NodeShape = TLBaseShape<
         state: string
         numberOfChanges: number
         resourceType: string
+        comparison: string
+        instances: number
+        dataSource: boolean
+        // Set on the nodes of the collapsed modules
+        resources: number
+        changes: ChangesBreakdown
     }
 >
 
@@ -60,6 +69,17 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
         iconPath: T.string,
         state: T.string,
         resourceType: T.string,
+        comparison: T.string,
+        instances: T.number,
+        dataSource: T.boolean,
+        resources: T.number,
+        changes: T.object({
+            create: T.number,
+            update: T.number,
+            delete: T.number,
+            moved: T.number,
+            unchanged: T.number,
+        }),
     }
 
     override isAspectRatioLocked = (_shape: NodeShape) => false
@@ -78,20 +98,30 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
             name: "AWS Service",
             iconPath: "",
             state: "no-op",
-            resourceType: "AWS Service"
+            resourceType: "AWS Service",
+            comparison: "",
+            instances: 0,
+            dataSource: false,
+            resources: 0,
+            changes: { create: 0, update: 0, delete: 0, moved: 0, unchanged: 0 }
         }
     }
 
 
     component(shape: NodeShape) {
+        const comparisonColor = getComparisonColor(shape.props.comparison)
+        const borderColor = comparisonColor || shape.props.borderColor
 
         return (
             <>
                 <HTMLContainer
                     id={shape.id}
                     style={{
-                        border: `2px solid ${shape.props.borderColor}`,
+                        border: `2px ${shape.props.dataSource ? "dashed" : "solid"} ${borderColor}`,
                         borderRadius: "0.25rem",
+                        // Resources with count or for_each are drawn as a stack of cards
+                        boxShadow: shape.props.instances > 0 ?
+                            `4px 4px 0 -2px ${shape.props.backgroundColor}, 4px 4px 0 0 ${borderColor}, 8px 8px 0 -2px ${shape.props.backgroundColor}, 8px 8px 0 0 ${borderColor}` : undefined,
                         display: 'flex',
                         alignItems: 'center',
                         justifyContent: 'center',
@@ -104,7 +134,19 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
                     >
                         {shape.props.resourceType}
                     </div>
-                    <img src={shape.props.iconPath} className='absolute bottom-4 h-16 w-16 rounded pointer-events-none select-none' />
+                    {
+                        shape.props.resources > 0 ?
+                            <div className='absolute bottom-4 flex flex-col items-center text-xs text-[#504758]'>
+                                {shape.props.resources + (shape.props.resources === 1 ? " resource" : " resources")}
+                                <div className='flex mt-2 text-white'>
+                                    {Object.entries(shape.props.changes).filter(([, number]) => number > 0).map(([action, number]) => (
+                                        <ChangesBadge key={action} action={action} number={number} />
+                                    ))}
+                                </div>
+                            </div> :
+                            <img src={shape.props.iconPath} className={`absolute rounded pointer-events-none select-none ${shape.props.dataSource ?
+                                "bottom-1 right-1 h-6 w-6" : "bottom-4 h-16 w-16"}`} />
+                    }
                     <div className={`flex absolute top-0 left-0 w-full`}>
                         <div className={`grow p-1 pt-[2px] text-sm text-black truncate rounded-br text-left`}
                         >
@@ -115,7 +157,8 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
                             <div
                                 style={{
                                     backgroundColor: shape.props.state === "create" ? "#37BB65" :
-                                        shape.props.state === "delete" ? "#E22134" : "#F2960D",
+                                        shape.props.state === "delete" ? "#E22134" :
+                                            shape.props.state === "moved" ? "#3B82F6" : "#F2960D",
                                     fontSize: "12px"
                                 }}
                                 className='mt-1 mr-1 rounded-full h-4 min-w-6 text-center leading-[15px]'>
@@ -123,6 +166,22 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
                             </div>
                         }
                     </div>
+                    {
+                        comparisonColor &&
+                        <div
+                            style={{ backgroundColor: comparisonColor, fontSize: "10px" }}
+                            className='absolute bottom-0 left-0 px-1 text-white rounded-tr leading-[14px]'>
+                            {getComparisonLabel(shape.props.comparison)}
+                        </div>
+                    }
+                    {
+                        shape.props.instances > 0 &&
+                        <div
+                            style={{ fontSize: "10px" }}
+                            className='absolute bottom-0 right-0 px-1 text-[#504758] leading-[14px]'>
+                            {"×" + shape.props.instances}
+                        </div>
+                    }
                 </HTMLContainer>
 
             </>
@@ -146,8 +205,22 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
         rect.setAttributeNS(null, 'height', shape.props.h.toString());
         rect.setAttributeNS(null, 'rx', '4'); // match the borderRadius from the component style
         rect.setAttributeNS(null, 'fill', shape.props.backgroundColor);
-        rect.setAttributeNS(null, 'stroke', shape.props.borderColor);
+        const comparisonColor = getComparisonColor(shape.props.comparison);
+        rect.setAttributeNS(null, 'stroke', comparisonColor || shape.props.borderColor);
         rect.setAttributeNS(null, 'stroke-width', '2');
+        if (shape.props.dataSource) {
+            rect.setAttributeNS(null, 'stroke-dasharray', '6 4');
+        }
+
+        // Resources with count or for_each are drawn as a stack of cards
+        if (shape.props.instances > 0) {
+            [8, 4].forEach((offset) => {
+                const stackRect = rect.cloneNode() as SVGRectElement;
+                stackRect.setAttributeNS(null, 'x', offset.toString());
+                stackRect.setAttributeNS(null, 'y', offset.toString());
+                g.appendChild(stackRect);
+            });
+        }
 
         // Append the rectangle to the main group
         g.appendChild(rect);
@@ -173,51 +246,88 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
         // Append the text element to the main group
         g.appendChild(typeText);
 
-        const iconWidth = 58; // The width of the SVG icon
-        const iconHeight = 58; // The height of the SVG icon
+        const iconWidth = shape.props.dataSource ? 24 : 58; // The width of the SVG icon
+        const iconHeight = shape.props.dataSource ? 24 : 58; // The height of the SVG icon
         const rectCenterX = shape.props.w / 2;
-        const iconX = rectCenterX - (iconWidth / 2); // Center the icon
-        const iconY = shape.props.h - iconHeight - 14; // Position the icon with a bottom margin
-
-        // Fetch and embed the SVG icon
-        try {
-            const response = await fetch(shape.props.iconPath.replace(".png", ".svg")); //Use svg icons
-            const svgText = await response.text();
-
-            const iconHolder = document.createElement('div');
-            iconHolder.innerHTML = svgText;
-            const iconSVG = iconHolder.querySelector('svg');
-            if (!iconSVG) {
-                throw new Error('SVG icon not found in fetched content');
+        // Data sources have a small icon in the bottom right corner
+        const iconX = shape.props.dataSource ? shape.props.w - iconWidth - 4 : rectCenterX - (iconWidth / 2); // Center the icon
+        const iconY = shape.props.h - iconHeight - (shape.props.dataSource ? 4 : 14); // Position the icon with a bottom margin
+
+        // Collapsed modules have the number of resources and the changes badges instead of an icon
+        if (shape.props.resources > 0) {
+            const resourcesText = document.createElementNS(xmlns, 'text');
+            resourcesText.textContent = shape.props.resources + (shape.props.resources === 1 ? " resource" : " resources");
+            resourcesText.setAttributeNS(null, 'x', rectCenterX.toString());
+            resourcesText.setAttributeNS(null, 'y', (shape.props.h - 52).toString());
+            resourcesText.setAttributeNS(null, 'style', `font-family: sans-serif; font-size: 12px; fill: #504758; text-anchor: middle;`);
+            resourcesText.setAttributeNS(null, 'dominant-baseline', 'middle');
+            g.appendChild(resourcesText);
+
+            const badges = Object.entries(shape.props.changes).filter(([, number]) => number > 0);
+            const badgeWidth = 24, badgeHeight = 16, badgeGap = 4;
+            const badgesX = rectCenterX - (badges.length * (badgeWidth + badgeGap) - badgeGap) / 2;
+            badges.forEach(([action, number], index) => {
+                const badgeRect = document.createElementNS(xmlns, 'rect');
+                badgeRect.setAttributeNS(null, 'x', (badgesX + index * (badgeWidth + badgeGap)).toString());
+                badgeRect.setAttributeNS(null, 'y', (shape.props.h - 32).toString());
+                badgeRect.setAttributeNS(null, 'width', badgeWidth.toString());
+                badgeRect.setAttributeNS(null, 'height', badgeHeight.toString());
+                badgeRect.setAttributeNS(null, 'rx', (badgeHeight / 2).toString());
+                badgeRect.setAttributeNS(null, 'fill', action === "create" ? "#37bb65" :
+                    action === "delete" ? "#e22134" :
+                        action === "update" ? "#f2960d" :
+                            action === "moved" ? "#3b82f6" : "#797181");
+                g.appendChild(badgeRect);
+
+                const badgeText = document.createElementNS(xmlns, 'text');
+                badgeText.textContent = number.toString();
+                badgeText.setAttributeNS(null, 'x', (badgesX + index * (badgeWidth + badgeGap) + badgeWidth / 2).toString());
+                badgeText.setAttributeNS(null, 'y', (shape.props.h - 32 + badgeHeight / 2 + 1).toString());
+                badgeText.setAttributeNS(null, 'style', `font-family: sans-serif; font-size: 12px; fill: white; text-anchor: middle; dominant-baseline: middle;`);
+                g.appendChild(badgeText);
+            });
+        } else {
+            // Fetch and embed the SVG icon
+            try {
+                const response = await fetch(shape.props.iconPath.replace(".png", ".svg")); //Use svg icons
+                const svgText = await response.text();
+
+                const iconHolder = document.createElement('div');
+                iconHolder.innerHTML = svgText;
+                const iconSVG = iconHolder.querySelector('svg');
+                if (!iconSVG) {
+                    throw new Error('SVG icon not found in fetched content');
+                }
+
+                // Configure SVG to fit the specified area
+                iconSVG.setAttribute('x', iconX.toString());
+                iconSVG.setAttribute('y', iconY.toString());
+                iconSVG.setAttribute('width', iconWidth.toString());
+                iconSVG.setAttribute('height', iconHeight.toString());
+
+                // Defining a clipPath for rounded corners
+                // Derived from the shape id, so that exporting the same diagram twice gives the same SVG
+                const clipPathId = `clip-round-corners-${shape.id.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+                const clipPath = document.createElementNS(xmlns, 'clipPath');
+                clipPath.setAttributeNS(null, 'id', clipPathId);
+                const clipRect = document.createElementNS(xmlns, 'rect');
+                clipRect.setAttributeNS(null, 'x', "0");
+                clipRect.setAttributeNS(null, 'y', "0");
+                clipRect.setAttributeNS(null, 'width', "64");
+                clipRect.setAttributeNS(null, 'height', "64");
+                clipRect.setAttributeNS(null, 'rx', '4');
+                clipRect.setAttributeNS(null, 'ry', '4');
+                clipPath.appendChild(clipRect);
+                g.appendChild(clipPath);
+
+                // Apply the clipPath to the icon
+                iconSVG.setAttributeNS(null, 'clip-path', 'url(#' + clipPathId + ')');
+
+                g.appendChild(iconSVG);
+
+            } catch (err) {
+                console.error('Error fetching or embedding SVG icon', err);
             }
-
-            // Configure SVG to fit the specified area
-            iconSVG.setAttribute('x', iconX.toString());
-            iconSVG.setAttribute('y', iconY.toString());
-            iconSVG.setAttribute('width', iconWidth.toString());
-            iconSVG.setAttribute('height', iconHeight.toString());
-
-            // Defining a clipPath for rounded corners
-            const clipPathId = `clip-round-corners-${Math.random().toString(36).substr(2, 9)}`;
-            const clipPath = document.createElementNS(xmlns, 'clipPath');
-            clipPath.setAttributeNS(null, 'id', clipPathId);
-            const clipRect = document.createElementNS(xmlns, 'rect');
-            clipRect.setAttributeNS(null, 'x', "0");
-            clipRect.setAttributeNS(null, 'y', "0");
-            clipRect.setAttributeNS(null, 'width', "64");
-            clipRect.setAttributeNS(null, 'height', "64");
-            clipRect.setAttributeNS(null, 'rx', '4');
-            clipRect.setAttributeNS(null, 'ry', '4');
-            clipPath.appendChild(clipRect);
-            g.appendChild(clipPath);
-
-            // Apply the clipPath to the icon
-            iconSVG.setAttributeNS(null, 'clip-path', 'url(#' + clipPathId + ')');
-
-            g.appendChild(iconSVG);
-
-        } catch (err) {
-            console.error('Error fetching or embedding SVG icon', err);
         }
 
         if (!["no-op", "read"].includes(shape.props.state)) {
@@ -248,7 +358,8 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
             changesRect.setAttributeNS(null, 'ry', (height / 2).toString());
 
             changesRect.setAttributeNS(null, 'fill', shape.props.state === "create" ? "#37bb65" :
-                shape.props.state === "delete" ? "#e22134" : "#f2960d");
+                shape.props.state === "delete" ? "#e22134" :
+                    shape.props.state === "moved" ? "#3b82f6" : "#f2960d");
 
 
             g.appendChild(changesRect);
@@ -268,6 +379,27 @@ export class NodeShapeUtil extends BaseBoxShapeUtil<NodeShape> {
         // Append the text element to the main group
         g.appendChild(nameText);
 
+        // Mark the nodes that differ between the compared plans
+        if (comparisonColor) {
+            const comparisonText = document.createElementNS(xmlns, 'text');
+            comparisonText.textContent = getComparisonLabel(shape.props.comparison);
+            comparisonText.setAttributeNS(null, 'x', padding.toString());
+            comparisonText.setAttributeNS(null, 'y', (shape.props.h - 7).toString());
+            comparisonText.setAttributeNS(null, 'style', `font-family: sans-serif; font-size: ${typeSize}px; fill: ${comparisonColor};`);
+            comparisonText.setAttributeNS(null, 'dominant-baseline', 'middle');
+            g.appendChild(comparisonText);
+        }
+
+        if (shape.props.instances > 0) {
+            const instancesText = document.createElementNS(xmlns, 'text');
+            instancesText.textContent = "×" + shape.props.instances;
+            instancesText.setAttributeNS(null, 'x', (shape.props.w - padding).toString());
+            instancesText.setAttributeNS(null, 'y', (shape.props.h - 7).toString());
+            instancesText.setAttributeNS(null, 'style', `font-family: sans-serif; font-size: ${typeSize}px; fill: #504758; text-anchor: end;`);
+            instancesText.setAttributeNS(null, 'dominant-baseline', 'middle');
+            g.appendChild(instancesText);
+        }
+
         // Return the SVG element <g>
         return g;
     }
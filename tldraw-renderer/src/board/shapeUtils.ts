@@ -21,4 +21,18 @@ export const truncateText = (textElement: any, maxWidth: number) => {
     document.body.removeChild(svg);
 
     return textElement;
-}
\ No newline at end of file
+}
+
+// Shape ids are "shape:<id of the node group>", without a timestamp, so that the same plan always gives the same shapes
+export const getShapeId = (id: string) => {
+    return "shape:" + id
+}
+
+export const getNodeGroupId = (shapeId: string) => {
+    return shapeId.slice("shape:".length)
+}
+
+// The arrows between two node groups, with a separator that cannot be in a resource address
+export const getArrowShapeId = (fromId: string, toId: string) => {
+    return getShapeId(fromId + "->" + toId)
+}
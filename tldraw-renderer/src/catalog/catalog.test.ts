@@ -0,0 +1,71 @@
+import { CatalogRow, findDataSourceRow, isInCatalog, mergeCatalogs, validateCatalogRows } from "./catalog"
+
+const row = (serviceName: string, mainBlocks: string, fields: Partial<CatalogRow> = {}) => ({
+    "Service Name": serviceName,
+    "Main Diagram Blocks": mainBlocks,
+    "Arguments For Name": "",
+    "Missing Resources": "",
+    "Data Sources": "",
+    "Category": "",
+    "Icon Path": "Icons/queue.svg",
+    "Simplified Category": "Message Queuing",
+    ...fields
+} as CatalogRow)
+
+describe("validateCatalogRows", () => {
+    it("reports the missing required columns of each row", () => {
+        const { errors } = validateCatalogRows([{ "Service Name": "Queue", "Main Diagram Blocks": "mycorp_queue" }], "catalog.json")
+        expect(errors).toEqual([
+            "catalog.json: row 1: missing value for the required column \"Icon Path\"",
+            "catalog.json: row 1: missing value for the required column \"Simplified Category\""
+        ])
+    })
+
+    it("reports the unknown columns, the values that are not strings and the invalid resource types", () => {
+        const { errors } = validateCatalogRows([{ ...row("Queue", "mycorp_queue"), "Icon": "queue.svg", "Category": 1, "Data Sources": "Queue" }], "catalog.json")
+        expect(errors).toEqual([
+            "catalog.json: row 1: unknown column \"Icon\". Valid columns are: Service Name, Main Diagram Blocks, Arguments For Name, Missing Resources, Data Sources, Category, Icon Path, Simplified Category",
+            "catalog.json: row 1: column \"Category\" must be a string",
+            "catalog.json: row 1: \"Queue\" in column \"Data Sources\" is not a valid resource type, e.g. \"aws_instance\""
+        ])
+        expect(validateCatalogRows(["mycorp_queue"], "catalog.json").errors).toEqual(["catalog.json: row 1: expected an object with the catalog columns"])
+    })
+
+    it("joins the lists of resource types of the JSON catalogs", () => {
+        const { catalog, errors } = validateCatalogRows([{ ...row("Queue", "mycorp_queue"), "Missing Resources": ["mycorp_queue_policy", " mycorp_queue_subscription "] }], "catalog.json")
+        expect(errors).toEqual([])
+        expect(catalog[0]["Missing Resources"]).toBe("mycorp_queue_policy,mycorp_queue_subscription")
+    })
+})
+
+describe("mergeCatalogs", () => {
+    const builtInCatalog = [row("SQS", "aws_sqs_queue"), row("SNS", "aws_sns_topic")]
+
+    it("replaces the built-in rows of the same service, and adds the other rows", () => {
+        const merged = mergeCatalogs(builtInCatalog, [row("SQS", "aws_sqs_queue", { "Icon Path": "data:custom" }), row("Queue", "mycorp_queue")])
+        expect(merged.map((catalogRow) => [catalogRow["Service Name"], catalogRow["Icon Path"]])).toEqual([
+            ["SNS", "Icons/queue.svg"],
+            ["SQS", "data:custom"],
+            ["Queue", "Icons/queue.svg"]
+        ])
+    })
+
+    it("keeps the row of the later catalog when two catalogs define the same service", () => {
+        const merged = mergeCatalogs(builtInCatalog, [row("Queue", "mycorp_queue"), row("Queue", "mycorp_queue_v2")])
+        expect(merged.filter((catalogRow) => catalogRow["Service Name"] === "Queue").map((catalogRow) => catalogRow["Main Diagram Blocks"])).toEqual(["mycorp_queue_v2"])
+    })
+})
+
+describe("catalog lookups", () => {
+    const catalog = [row("VPC", "aws_vpc", { "Missing Resources": "aws_subnet" }), row("Subnets", "aws_ec2_subnet", { "Data Sources": "aws_subnet" })]
+
+    it("finds the resource types in any of the type columns", () => {
+        expect(isInCatalog(catalog, "aws_subnet")).toBe(true)
+        expect(isInCatalog(catalog, "aws_instance")).toBe(false)
+    })
+
+    it("prefers the Data Sources column for the services of the data sources", () => {
+        expect(findDataSourceRow(catalog, "aws_subnet")!["Service Name"]).toBe("Subnets")
+        expect(findDataSourceRow(catalog, "aws_vpc")!["Service Name"]).toBe("VPC")
+    })
+})
@@ -0,0 +1,115 @@
+import Papa from "papaparse"
+import { terraformResourcesCsv } from "../terraformResourcesCsv"
+import { azurermResourcesCsv } from "../azurermResourcesCsv"
+import { googleResourcesCsv } from "../googleResourcesCsv"
+
+export type CatalogRow = {
+    "Service Name": string,
+    "Main Diagram Blocks": string,
+    "Arguments For Name": string,
+    "Missing Resources": string,
+    "Data Sources": string,
+    "Category": string,
+    "Icon Path": string,
+    "Simplified Category": string
+}
+
+export const catalogColumns: (keyof CatalogRow)[] = [
+    "Service Name",
+    "Main Diagram Blocks",
+    "Arguments For Name",
+    "Missing Resources",
+    "Data Sources",
+    "Category",
+    "Icon Path",
+    "Simplified Category"
+]
+
+const requiredColumns: (keyof CatalogRow)[] = ["Service Name", "Main Diagram Blocks", "Icon Path", "Simplified Category"]
+
+// Columns holding comma separated lists of resource types
+const typeColumns: (keyof CatalogRow)[] = ["Main Diagram Blocks", "Missing Resources", "Data Sources"]
+
+// One catalog per provider, all with the same columns
+const builtInCatalogs = [
+    terraformResourcesCsv,
+    azurermResourcesCsv,
+    googleResourcesCsv
+]
+
+export const getBuiltInCatalog = (): CatalogRow[] => {
+    return builtInCatalogs.map((csv) => Papa.parse<CatalogRow>(csv, { delimiter: ",", header: true }).data).flat()
+}
+
+// Custom rows replace the built-in rows of the same service, the other ones are added after the built-in rows.
+// The custom catalogs are in loading order, so the row of a later catalog replaces the row of an earlier one.
+export const mergeCatalogs = (builtInCatalog: CatalogRow[], customCatalog: CatalogRow[]) => {
+    const customRows = new Map<string, CatalogRow>()
+    customCatalog.forEach((row) => customRows.set(row["Service Name"], row))
+    return [
+        ...builtInCatalog.filter((row) => !customRows.has(row["Service Name"])),
+        ...Array.from(customRows.values())
+    ]
+}
+
+// Whether the resource type is a main block, a secondary resource or a data source of any service
+export const isInCatalog = (catalog: CatalogRow[], resourceType: string) => {
+    return catalog.some((row) => typeColumns.some((column) => splitTypes(row[column]).includes(resourceType)))
+}
+
+// The service of a data source, e.g. VPC for data.aws_vpc: a "Data Sources" entry wins over the resource columns
+export const findDataSourceRow = (catalog: CatalogRow[], dataSourceType: string) => {
+    return catalog.find((row) => splitTypes(row["Data Sources"]).includes(dataSourceType)) ||
+        catalog.find((row) => typeColumns.some((column) => splitTypes(row[column]).includes(dataSourceType)))
+}
+
+const splitTypes = (column: string) => {
+    return (column || "").split(",").map((type) => type.trim()).filter((type) => type !== "")
+}
+
+// Validates the rows of a custom catalog, and normalizes them into the CSV format of the built-in catalog.
+// Rows coming from JSON files may use arrays for the lists of resource types.
+export const validateCatalogRows = (rows: any[], source: string) => {
+    const errors: string[] = []
+    const catalog: CatalogRow[] = []
+
+    rows.forEach((row, index) => {
+        const rowName = `${source}: row ${index + 1}`
+        if (typeof row !== "object" || row === null || Array.isArray(row)) {
+            errors.push(`${rowName}: expected an object with the catalog columns`)
+            return
+        }
+        Object.keys(row).filter((column) => !catalogColumns.includes(column as keyof CatalogRow)).forEach((column) => {
+            errors.push(`${rowName}: unknown column "${column}". Valid columns are: ${catalogColumns.join(", ")}`)
+        })
+
+        const normalizedRow = {} as CatalogRow
+        catalogColumns.forEach((column) => {
+            const value = row[column]
+            if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+                normalizedRow[column] = value.join(",")
+            } else if (value === undefined || value === null) {
+                normalizedRow[column] = ""
+            } else if (typeof value === "string") {
+                normalizedRow[column] = value.trim()
+            } else {
+                errors.push(`${rowName}: column "${column}" must be a string`)
+                normalizedRow[column] = ""
+            }
+        })
+
+        requiredColumns.filter((column) => !normalizedRow[column]).forEach((column) => {
+            errors.push(`${rowName}: missing value for the required column "${column}"`)
+        })
+
+        typeColumns.forEach((column) => {
+            normalizedRow[column] = splitTypes(normalizedRow[column]).join(",")
+            splitTypes(normalizedRow[column]).filter((type) => !/^[a-z0-9]+_[a-z0-9_]+$/.test(type)).forEach((type) => {
+                errors.push(`${rowName}: "${type}" in column "${column}" is not a valid resource type, e.g. "aws_instance"`)
+            })
+        })
+        catalog.push(normalizedRow)
+    })
+
+    return { catalog, errors }
+}
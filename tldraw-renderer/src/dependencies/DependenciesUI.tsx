@@ -1,6 +1,8 @@
 import { Editor } from "@tldraw/tldraw";
-import { NodeGroup } from "../TLDWrapper";
+import { NodeGroup } from "../parser/types";
 import { Dependency } from "./dependencies";
+import { getNodeGroupId } from "../board/shapeUtils";
+import { getModuleLabel, getModulePath, removeModuleKeys } from "../utils/modules";
 
 interface DependencyUIProps {
     dependencies: Dependency[];
@@ -24,8 +26,7 @@ const DependencyUI = ({
 
     const getResourceIcon = (dep: Dependency) => {
         const iconPath = nodeGroups.find(n =>
-            n.type === dep.name.split(".")[0] && n.name === dep.name.split(".")[1] && (dep.module === "root_module" ?
-                !n.moduleName : dep.module === n.moduleName))?.iconPath || "";
+            n.type === dep.name.split(".")[0] && n.name === dep.name.split(".")[1] && dep.module === getModulePath(n))?.iconPath || "";
         return (
             <img
                 className="w-4 h-4 relative"
@@ -40,17 +41,15 @@ const DependencyUI = ({
             <div
                 onClick={type === "resource" ? () => {
                     editor.select(...(Array.from(editor.getCurrentPageShapeIds()).filter((id) => {
-                        const clickedNodeId = nodeGroups.find(n =>
-                            n.type === dep.name.split(".")[0] && n.name === dep.name.split(".")[1] && (dep.module === "root_module" ?
-                                !n.moduleName : dep.module === n.moduleName))?.id
-                        return id.split(":")[1] === clickedNodeId
+                        // The instances of an expanded stack are all selected
+                        const clickedNodeIds = nodeGroups.filter(n =>
+                            n.type === dep.name.split(".")[0] && n.name === dep.name.split(".")[1] && dep.module === getModulePath(n)).map((n) => n.id)
+                        return clickedNodeIds.includes(getNodeGroupId(id))
                     })))
                 } : type === "module" ? () => {
+                    // Frames are keyed on the full path of their module, and each module instance has its own frame
                     editor.select(...(Array.from(editor.getCurrentPageShapeIds()).filter((id) => {
-                        const clickedModuleId = nodeGroups.find(n => {
-                            return n.moduleName === dep.name
-                        })?.frameShapeId
-                        return id === clickedModuleId
+                        return removeModuleKeys(getNodeGroupId(id)) === dep.name
                     })))
                 } : undefined}
                 key={index + "-" + type + "-dep"}
@@ -60,8 +59,7 @@ const DependencyUI = ({
                     ...(type === "resource" ?
                         {
                             opacity: nodeGroups.find(n =>
-                                n.type === dep.name.split(".")[0] && n.name === dep.name.split(".")[1] && (dep.module === "root_module" ?
-                                    !n.moduleName : dep.module === n.moduleName))?.numberOfChanges === 0 ? 0.2 : 1,
+                                n.type === dep.name.split(".")[0] && n.name === dep.name.split(".")[1] && dep.module === getModulePath(n))?.numberOfChanges === 0 ? 0.2 : 1,
                             cursor: "pointer"
                         } :
                         type === "module" ? {
@@ -77,10 +75,10 @@ const DependencyUI = ({
                     <>
                         <div className="h-4" />
                         <div className=" relative font-bold text-[0.9rem]">
-                            {(dep.module === "root_module" ? !moduleName : dep.module === moduleName) ? type.charAt(0).toUpperCase() : "!" + type.charAt(0).toUpperCase()}
+                            {dep.module === moduleName ? type.charAt(0).toUpperCase() : "!" + type.charAt(0).toUpperCase()}
                         </div>
                         <div className="ml-1">
-                            {dep.name}
+                            {type === "module" ? getModuleLabel(dep.name) : dep.name}
                         </div>
                     </>
                 }
@@ -0,0 +1,139 @@
+import { NodeGroup } from "../parser/types"
+import { getVariablesAndOutputs, moduleDependencies, resourceDependencies } from "./dependencies"
+
+const nodeGroup = (address: string) => {
+    const segments = address.split(".")
+    const modules = segments.filter((_segment, i) => i % 2 === 1 && segments[i - 1] === "module")
+    const [type, name] = segments.slice(-2)
+    return {
+        id: address,
+        nodes: [{ nodeModel: { id: `[root] ${address} (expand)` }, name, type }],
+        name,
+        type,
+        moduleName: modules[modules.length - 1],
+        parentModules: modules.slice(0, -1),
+        connectionsIn: [],
+        connectionsOut: []
+    } as any as NodeGroup
+}
+
+const resource = (type: string, name: string, references: string[]) => ({
+    address: type + "." + name,
+    type,
+    name,
+    expressions: { argument: { references } }
+})
+
+// The subnet goes down two module levels as a variable, the endpoint of module.app.module.db is re-exported by module.app,
+// and module.other has a module named db too
+const dbModule = {
+    variables: { subnet: {} },
+    resources: [resource("aws_db_instance", "x", ["var.subnet"])],
+    outputs: { endpoint: { expression: { references: ["aws_db_instance.x.endpoint", "aws_db_instance.x"] } } }
+}
+
+const planJson = {
+    configuration: {
+        root_module: {
+            resources: [
+                resource("aws_subnet", "s", []),
+                resource("aws_lambda_function", "f", ["module.app.db_endpoint", "module.app", "module.gone.value", "module.gone"])
+            ],
+            outputs: {
+                missing: { expression: { references: ["aws_s3_bucket.missing.arn", "aws_s3_bucket.missing", "module.gone.value", "module.gone"] } }
+            },
+            module_calls: {
+                app: {
+                    expressions: { subnet: { references: ["aws_subnet.s.id", "aws_subnet.s"] } },
+                    module: {
+                        variables: { subnet: {} },
+                        outputs: { db_endpoint: { expression: { references: ["module.db.endpoint", "module.db"] } } },
+                        module_calls: {
+                            db: { expressions: { subnet: { references: ["var.subnet"] } }, module: dbModule }
+                        }
+                    }
+                },
+                other: {
+                    module: {
+                        module_calls: {
+                            db: { expressions: { subnet: { references: ["local.subnet"] } }, module: dbModule }
+                        }
+                    }
+                }
+            }
+        }
+    }
+}
+
+const nodeGroups = new Map(["aws_subnet.s", "aws_lambda_function.f", "module.app.module.db.aws_db_instance.x", "module.other.module.db.aws_db_instance.x"]
+    .map((address) => [address, nodeGroup(address)]))
+const { variables, outputs } = getVariablesAndOutputs(nodeGroups, planJson)
+const nodes = Array.from(nodeGroups.values())
+
+const dependenciesOf = (address: string) => resourceDependencies(nodes, nodeGroups.get(address)!, variables, outputs)
+
+describe("getVariablesAndOutputs", () => {
+    it("collects the variables and outputs of the modules at any depth, keyed on the full module path", () => {
+        expect(variables.map((variable) => variable.module + " " + variable.name)).toEqual([
+            "module.app subnet",
+            "module.app.module.db subnet",
+            "module.other.module.db subnet"
+        ])
+        expect(outputs.map((output) => output.module + " " + output.name)).toEqual([
+            "root_module missing",
+            "module.app db_endpoint",
+            "module.app.module.db endpoint",
+            "module.other.module.db endpoint"
+        ])
+    })
+
+    it("resolves the references of the modules with the same name to their own resources", () => {
+        const endpoints = outputs.filter((output) => output.name === "endpoint")
+        expect(endpoints.map((output) => output.expressionReferences)).toEqual([
+            [{ type: "resource", module: "module.app.module.db", name: "aws_db_instance.x" }],
+            [{ type: "resource", module: "module.other.module.db", name: "aws_db_instance.x" }]
+        ])
+    })
+
+    it("skips the references that do not resolve to a resource or a module output", () => {
+        expect(outputs[0].expressionReferences).toEqual([{ type: "output", module: "module.gone", name: "value" }])
+        expect(nodeGroups.get("aws_lambda_function.f")!.outputRefs).toEqual(["module.app.db_endpoint", "module.gone.value"])
+        expect(dependenciesOf("aws_lambda_function.f").dependencies).toEqual([
+            { type: "resource", module: "module.app.module.db", name: "aws_db_instance.x" }
+        ])
+    })
+})
+
+describe("resourceDependencies", () => {
+    it("follows a variable through the module levels to the resource that sets it", () => {
+        expect(dependenciesOf("module.app.module.db.aws_db_instance.x").dependencies).toEqual([
+            { type: "resource", module: "root_module", name: "aws_subnet.s" }
+        ])
+    })
+
+    it("follows an output re-exported by the parent module to the resource that uses it", () => {
+        expect(dependenciesOf("aws_lambda_function.f").dependencies).toEqual([
+            { type: "resource", module: "module.app.module.db", name: "aws_db_instance.x" }
+        ])
+        expect(dependenciesOf("module.app.module.db.aws_db_instance.x").affected).toEqual([
+            { type: "resource", module: "root_module", name: "aws_lambda_function.f" }
+        ])
+    })
+
+    it("does not mix up the modules with the same name under different parents", () => {
+        expect(dependenciesOf("module.other.module.db.aws_db_instance.x")).toEqual({
+            dependencies: [{ type: "variable", module: "module.other.module.db", name: "subnet" }],
+            affected: [{ type: "output", module: "module.other.module.db", name: "endpoint" }]
+        })
+    })
+})
+
+describe("moduleDependencies", () => {
+    it("keeps the dependencies outside of the module and of its nested modules", () => {
+        expect(moduleDependencies(nodes, "module.app", variables, outputs)).toEqual({
+            dependencies: [{ type: "module", module: "root_module", name: "root_module" }],
+            affected: [{ type: "module", module: "root_module", name: "root_module" }]
+        })
+        expect(moduleDependencies(nodes, "module.other", variables, outputs)).toEqual({ dependencies: [], affected: [] })
+    })
+})
@@ -1,54 +1,77 @@
-import { find } from "core-js/core/array";
-import { NodeGroup, TFVariableOutput } from "../TLDWrapper";
+import { NodeGroup, TFVariableOutput } from "../parser/types";
 import { getResourceNameAndType } from "../utils/resources";
+import { getChildModulePath, getModulePath, isInModule } from "../utils/modules";
+
+// References that are neither variables, module outputs nor resources of a node group
+const ignoredReferencePrefixes = ["local", "each", "count", "path", "terraform", "self", "data"]
+
+// Resolves a reference of an expression in the scope of the module where the expression is written
+const toExpressionReference = (reference: string, modulePath: string, nodeGroups: Map<string, NodeGroup>) => {
+    const parts = reference.split(".")
+    if (ignoredReferencePrefixes.includes(parts[0])) return undefined
+    if (parts[0] === "var") {
+        return { type: "variable" as const, module: modulePath, name: parts[1] }
+    }
+    if (parts[0] === "module") {
+        return { type: "output" as const, module: getChildModulePath(modulePath, parts[1].split("[")[0]), name: parts[2] }
+    }
+    return { type: "resource" as const, module: modulePath, name: getNodeGroupName(reference, modulePath, nodeGroups) }
+}
+
+const getExpressionReferences = (references: string[] | undefined, modulePath: string, nodeGroups: Map<string, NodeGroup>) => {
+    return makeUnique((references || []).map((r) => toExpressionReference(r, modulePath, nodeGroups))
+        .filter((e) => e !== undefined && e.name && !e.name.includes("[")) as TFVariableOutput["expressionReferences"])
+}
+
+// Adds the variables and outputs of a module and of all its nested modules
+const addModuleVariablesAndOutputs = (module: any, modulePath: string, moduleCall: any, parentModulePath: string, nodeGroups: Map<string, NodeGroup>,
+    variables: TFVariableOutput[], outputs: TFVariableOutput[]) => {
+    variables.push(...Object.keys(module?.variables || {}).map((key) => {
+        return {
+            name: key,
+            module: modulePath,
+            type: "variable" as const,
+            // The value of a variable is set by the module call, in the scope of the parent module
+            expressionReferences: moduleCall ? getExpressionReferences(moduleCall.expressions?.[key]?.references, parentModulePath, nodeGroups) : []
+        }
+    }))
+    outputs.push(...Object.keys(module?.outputs || {}).map((key) => {
+        return {
+            name: key,
+            module: modulePath,
+            type: "output" as const,
+            expressionReferences: getExpressionReferences(module.outputs[key]?.expression?.references, modulePath, nodeGroups)
+        }
+    }))
+    Object.entries(module?.module_calls || {}).forEach(([moduleName, call]: [string, any]) => {
+        addModuleVariablesAndOutputs(call.module, getChildModulePath(modulePath, moduleName), call, modulePath, nodeGroups, variables, outputs)
+    })
+}
+
+// The configuration of the module of a node group, at any depth
+const getModuleConfig = (rootModule: any, nodeGroup: NodeGroup) => {
+    const modules = nodeGroup.moduleName ? [...nodeGroup.parentModules, nodeGroup.moduleName] : []
+    return modules.reduce((module, moduleName) => module?.module_calls?.[moduleName]?.module, rootModule)
+}
 
 export const getVariablesAndOutputs = (nodeGroups: Map<string, NodeGroup>, planJson: any) => {
     const variables: TFVariableOutput[] = []
     const outputs: TFVariableOutput[] = []
 
     if (planJson) {
-        variables.push(...Object.keys(planJson?.configuration?.root_module?.variables || {}).map((key) => {
-            return {
-                name: key,
-                type: "variable" as any,
-                module: "root_module",
-                expressionReferences: []
-            }
-        }))
-        outputs.push(...Object.keys(planJson?.configuration?.root_module?.outputs || {}).map((key) => {
-            const thisModule = "root_module"
-            return {
-                name: key,
-                module: "root_module",
-                type: "output" as any,
-                expressionReferences: makeUnique(planJson?.configuration?.root_module?.outputs?.[key]?.expression?.references?.map((r: any) => {
-                    const type = r.startsWith("var.") ? "variable" : r.startsWith("module.") ? "output" : "resource"
-                    const module = type === "variable" || type === "resource" ? thisModule : type === "output" ? r.split(".")[1] : ""
-                    return {
-                        type,
-                        module,
-                        name: type === "variable" ? r.split(".")[1] : type === "output" ? r.split(".")[2] : getNodeGroupName(r, thisModule, nodeGroups),
-                    }
-                }).filter((e: any) => e.name && !e.name.includes("[")) || []),
-            }
-        }))
+        addModuleVariablesAndOutputs(planJson?.configuration?.root_module, "root_module", undefined, "", nodeGroups, variables, outputs)
     }
 
     nodeGroups.forEach((nodeGroup) => {
-        const moduleName = nodeGroup.moduleName
-        const parentModules = nodeGroup.parentModules
-
         const nodeVariableRefs: string[] = []
         const nodeOutputRefs: string[] = []
+        const nodeLocalRefs: string[] = []
+        const basePath = getModuleConfig(planJson?.configuration?.root_module, nodeGroup)
         nodeGroup.nodes.forEach((node) => {
 
             const address = node.nodeModel.id.split(" ")[1]
             const { resourceType, resourceName } = getResourceNameAndType(address)
 
-            const basePath = moduleName ?
-                getRecursiveBasePath(planJson?.configuration?.root_module?.module_calls, parentModules, moduleName).module :
-                planJson?.configuration?.root_module
-
             Object.entries(basePath?.resources?.filter((r: any) => {
                 return r.type === resourceType && r.name === resourceName
             })[0]?.expressions || []).forEach(([key, value]) => {
@@ -58,6 +81,8 @@ export const getVariablesAndOutputs = (nodeGroups: Map<string, NodeGroup>, planJ
                             nodeVariableRefs.push(ref.split(".")[1])
                         } else if (ref.startsWith("module.") && !nodeOutputRefs.includes(ref.split("[")[0]) && ref.split(".").length > 2) {
                             nodeOutputRefs.push(ref.split("[")[0])
+                        } else if (ref.startsWith("local.") && !nodeLocalRefs.includes(ref.split(".")[1])) {
+                            nodeLocalRefs.push(ref.split(".")[1])
                         }
                     })
                 }
@@ -66,50 +91,7 @@ export const getVariablesAndOutputs = (nodeGroups: Map<string, NodeGroup>, planJ
 
         nodeGroup.variableRefs = nodeVariableRefs
         nodeGroup.outputRefs = nodeOutputRefs
-
-        if (moduleName) {
-            if (variables.filter((v) => v.module === moduleName).length === 0) {
-                const parentModule = parentModules.length > 0 ? parentModules[parentModules.length - 1] : "root_module"
-                variables.push(...Object.keys(
-                    getRecursiveBasePath(planJson?.configuration?.root_module?.module_calls, parentModules, moduleName)?.module?.variables
-                    || {}).map((key) => {
-                        return {
-                            name: key,
-                            module: moduleName,
-                            type: "variable" as any,
-                            expressionReferences: makeUnique(
-                                getRecursiveBasePath(planJson?.configuration?.root_module?.module_calls, parentModules, moduleName)?.expressions?.[key]?.references?.map((r: any) => {
-                                    const type = r.startsWith("var.") ? "variable" : r.startsWith("module.") ? "output" : "unknown"
-                                    const module = type === "variable" ? parentModule : type === "output" ? r.split(".")[1] : ""
-                                    return {
-                                        type,
-                                        module,
-                                        name: type === "variable" ? r.split(".")[1] : r.split(".")[2],
-                                    }
-                                }).filter((e: any) => e.name && !e.name.includes("[")) || [])
-                        }
-                    }))
-            }
-            if (outputs.filter((v) => v.module === moduleName).length === 0) {
-                outputs.push(...Object.keys(planJson?.configuration?.root_module?.module_calls?.[moduleName]?.module?.outputs || {}).map((key) => {
-                    const thisModule = moduleName
-                    return {
-                        name: key,
-                        module: moduleName,
-                        type: "output" as any,
-                        expressionReferences: makeUnique(getRecursiveBasePath(planJson?.configuration?.root_module?.module_calls, parentModules, moduleName)?.module?.outputs?.[key]?.expression?.references?.map((r: any) => {
-                            const type = r.startsWith("var.") ? "variable" : r.startsWith("module.") ? "output" : "resource"
-                            const module = type === "variable" || type === "resource" ? thisModule : type === "output" ? r.split(".")[1] : ""
-                            return {
-                                type,
-                                module,
-                                name: type === "variable" ? r.split(".")[1] : type === "output" ? r.split(".")[2] : getNodeGroupName(r, thisModule, nodeGroups),
-                            }
-                        }).filter((e: any) => e.name && !e.name.includes("[")) || []),
-                    }
-                }))
-            }
-        }
+        nodeGroup.localRefs = nodeLocalRefs
     })
     nodeGroups.forEach((nodeGroup) => {
         const nodeOutputRefs: string[] = []
@@ -118,7 +100,7 @@ export const getVariablesAndOutputs = (nodeGroups: Map<string, NodeGroup>, planJ
             const { resourceType, resourceName } = getResourceNameAndType(address)
 
             outputs.filter((o) => {
-                return nodeGroup.moduleName ? o.module === nodeGroup.moduleName : o.module === "root_module"
+                return o.module === getModulePath(nodeGroup)
             }).forEach((output) => {
                 if (output.expressionReferences.some((ref) => ref.type === "resource" && ref.name === resourceType + "." + resourceName)) {
                     if (!nodeOutputRefs.includes(output.name))
@@ -132,16 +114,9 @@ export const getVariablesAndOutputs = (nodeGroups: Map<string, NodeGroup>, planJ
     return { variables, outputs }
 }
 
-const getRecursiveBasePath = (moduleCalls: any, parentModules: string[], moduleName: string): any => {
-    if (parentModules.length === 0) {
-        return moduleCalls[moduleName]
-    }
-    return getRecursiveBasePath(moduleCalls[parentModules[0]].module.module_calls, parentModules.slice(1), moduleName)
-}
-
 const getNodeGroupName = (nameType: string, nodeModule: string, nodeGroups: Map<string, NodeGroup>) => {
     const nodeGroup = Array.from(nodeGroups).find(([key, value]) => {
-        return (nodeModule === "root_module" ? !value.moduleName : value.moduleName === nodeModule) && value.nodes.some((node) => {
+        return getModulePath(value) === nodeModule && value.nodes.some((node) => {
             return node.name === nameType.split(".")[1] && node.type === nameType.split(".")[0]
         })
     })
@@ -168,149 +143,81 @@ const removeDuplicates = (arr: Dependency[], selectedNode: NodeGroup) => {
         return dep.type === "resource" ?
             dep.name !== selectedNode.type + "." + selectedNode.name
             : dep.type === "module" ?
-                dep.name !== (selectedNode.moduleName || "root_module")
+                dep.name !== getModulePath(selectedNode)
                 : true
     })
     return arr.filter((v, i, a) => a.findIndex(t => (t.name === v.name && t.module === v.module && t.type === v.type)) === i)
 }
 
-const getVarOutDependencies = (node: NodeGroup, varOut: TFVariableOutput[]) => {
-    const deps: Dependency[] = []
-    node.variableRefs?.forEach((variableRef) => {
-        const moduleName = node.moduleName || "root_module"
-        const variable = varOut?.find((variable) => variable.name === variableRef && variable.module === moduleName && variable.type === "variable")
-        if (variable) {
-            if (variable.expressionReferences.length === 1) {
-                const lastSingleDependency = findLastSingleDependency(variable.expressionReferences[0], varOut)
-                deps.push(lastSingleDependency)
-            } else {
-                if (variable.expressionReferences.length > 1) {
-                    // If the references all come from the same module, then push the module
-                    const refModule = variable.expressionReferences ? variable.expressionReferences[0].module : ""
-                    if (variable.expressionReferences.every((ref) => ref.module === refModule)) {
-                        deps.push({
-                            type: "module",
-                            module: refModule,
-                            name: refModule
-                        })
-                    } else {
-                        deps.push({
-                            type: "variable",
-                            module: moduleName,
-                            name: variableRef
-                        })
-                    }
-                } else
-                    deps.push({
-                        type: "variable",
-                        module: moduleName,
-                        name: variableRef
-                    })
-            }
-        }
-    })
-    node.outputRefs?.forEach((outputRef) => {
-        const moduleName = outputRef.startsWith("module.") ? outputRef.split(".")[1] : node.moduleName || "root_module"
-        const output = varOut?.find((output) => output.name === (outputRef.startsWith("module.") ? outputRef.split(".")[2] : outputRef) &&
-            output.module === moduleName)
-        if (output) {
-            if (output.expressionReferences.length === 1) {
-                const lastSingleDependency = findLastSingleDependency(output.expressionReferences[0], varOut)
-                deps.push(lastSingleDependency)
-            } else {
-                if (output.expressionReferences.length > 1) {
-                    const refModule = output.expressionReferences ? output.expressionReferences[0].module : ""
-                    if (output.expressionReferences.every((ref) => ref.module === refModule)) {
-                        deps.push({
-                            type: "module",
-                            module: refModule,
-                            name: refModule
-                        })
-                    } else {
-                        deps.push({
-                            type: "output",
-                            module: moduleName,
-                            name: output.name
-                        })
-                    }
-                } else
-                    deps.push({
-                        type: "output",
-                        module: moduleName,
-                        name: output.name
-                    })
-            }
-        }
+// The modules of the outputs referenced by a node group are relative to its module, e.g. "module.db.endpoint"
+const referencesOutput = (node: NodeGroup, output: TFVariableOutput) => {
+    return node.outputRefs?.some((outputRef) => {
+        return getChildModulePath(getModulePath(node), outputRef.split(".")[1]) === output.module && outputRef.split(".")[2] === output.name
     })
-    return deps
 }
 
-const getAffectedVarOut = (node: NodeGroup, varOut: TFVariableOutput[], nodes: NodeGroup[]) => {
-    const deps: Dependency[] = []
-    node.affectedOutputs?.forEach((outputRef) => {
-        const moduleName = node.moduleName || "root_module"
-        const output = varOut?.find((output) => output.name === outputRef && output.module === moduleName && output.type === "output")
-        if (output) {
-            const affected = [...varOut.filter((v) => v.expressionReferences.some((ref) => ref.type === "output" && ref.name === outputRef && ref.module === moduleName)),
-            ...nodes.filter((n) => n.outputRefs?.includes(outputRef))]
-            if (affected.length === 1) {
-                const lastSingleAffected = findLastSingleAffected(affected[0], varOut, deps, nodes)
-                deps.push(lastSingleAffected)
-            } else {
-                if (affected.length > 1) {
-                    const refModule = output.expressionReferences ? output.expressionReferences[0].module : ""
-                    if (output.expressionReferences.every((ref) => ref.module === refModule)) {
-                        deps.push({
-                            type: "module",
-                            module: refModule,
-                            name: refModule
-                        })
-                    } else {
-                        deps.push({
-                            type: "output",
-                            module: moduleName,
-                            name: outputRef
-                        })
-                    }
-                } else
-                    deps.push({
-                        type: "output",
-                        module: moduleName,
-                        name: outputRef
-                    })
-            }
-        }
-    })
-    return deps
-
+// The variables, outputs and resources that use the value of a variable or of an output, in any module
+const getUsers = (varOut: TFVariableOutput, allVarOut: TFVariableOutput[], nodes: NodeGroup[]): (TFVariableOutput | NodeGroup)[] => {
+    return [
+        ...allVarOut.filter((v) => v.expressionReferences.some((ref) => ref.type === varOut.type && ref.name === varOut.name && ref.module === varOut.module)),
+        ...nodes.filter((n) => varOut.type === "variable" ?
+            getModulePath(n) === varOut.module && n.variableRefs?.includes(varOut.name) :
+            referencesOutput(n, varOut))
+    ]
 }
 
-const findLastSingleAffected = (aff: TFVariableOutput | NodeGroup, varOut: TFVariableOutput[], deps: Dependency[], nodes: NodeGroup[]) => {
-    let lastSingleAffected = {
-        type: (aff as any).id ? "resource" : aff.type as any,
-        module: (aff as any).id ? (aff as NodeGroup).moduleName || "root_module" : (aff as TFVariableOutput).module,
-        name: (aff as any).id ? (aff as NodeGroup).type + "." + (aff as NodeGroup).name : (aff as TFVariableOutput).name
+const toDependency = (varOutOrNode: TFVariableOutput | NodeGroup): Dependency => {
+    if ((varOutOrNode as any).id) {
+        const node = varOutOrNode as NodeGroup
+        return { type: "resource", module: getModulePath(node), name: node.type + "." + node.name }
     }
-    const affected = [...varOut.filter((v) => v.expressionReferences.some((ref) => ref.type === "output" && ref.name === aff.name && ref.module === lastSingleAffected.module)),
-    ...nodes.filter((n) => lastSingleAffected.type === "variable" ? n.variableRefs?.includes(aff.name) : n.outputRefs?.includes(aff.name))]
+    const varOut = varOutOrNode as TFVariableOutput
+    return { type: varOut.type, module: varOut.module, name: varOut.name }
+}
+
+const getVarOutDependencies = (node: NodeGroup, varOut: TFVariableOutput[]) => {
+    const modulePath = getModulePath(node)
+    return [
+        ...(node.variableRefs || []).map((variableRef) => {
+            return varOut.find((variable) => variable.name === variableRef && variable.module === modulePath && variable.type === "variable")
+        }),
+        ...(node.outputRefs || []).map((outputRef) => {
+            return varOut.find((output) => output.type === "output" &&
+                output.module === getChildModulePath(modulePath, outputRef.split(".")[1]) && output.name === outputRef.split(".")[2])
+        })
+    ].filter((v) => v !== undefined).map((v) => findLastSingleDependency(toDependency(v!), varOut))
+}
+
+const getAffectedVarOut = (node: NodeGroup, varOut: TFVariableOutput[], nodes: NodeGroup[]) => {
+    return (node.affectedOutputs || []).map((outputRef) => {
+        return varOut.find((output) => output.name === outputRef && output.module === getModulePath(node) && output.type === "output")
+    }).filter((output) => output !== undefined).map((output) => findLastSingleAffected(output!, varOut, nodes))
+}
+
+// Follows the values of variables and outputs across modules, while they are used by a single variable, output or
+// resource. When they are used by several ones in the same module, the module is the affected dependency.
+const findLastSingleAffected = (aff: TFVariableOutput | NodeGroup, varOut: TFVariableOutput[], nodes: NodeGroup[]): Dependency => {
+    const lastSingleAffected = toDependency(aff)
+    // Resources end the chain
+    if ((aff as any).id) return lastSingleAffected
+    const affected = getUsers(aff as TFVariableOutput, varOut, nodes)
     if (affected.length === 1) {
-        lastSingleAffected = findLastSingleAffected(affected[0], varOut, deps, nodes)
-    } else {
-        if (affected.length > 1) {
-            const refModule = (aff as TFVariableOutput).expressionReferences ? (aff as TFVariableOutput).expressionReferences[0].module : ""
-            if ((aff as TFVariableOutput).expressionReferences.every((ref) => ref.module === refModule)) {
-                lastSingleAffected = {
-                    type: "module",
-                    module: refModule,
-                    name: refModule
-                }
+        return findLastSingleAffected(affected[0], varOut, nodes)
+    }
+    if (affected.length > 1) {
+        const affectedModule = toDependency(affected[0]).module
+        if (affected.every((a) => toDependency(a).module === affectedModule)) {
+            return {
+                type: "module",
+                module: affectedModule,
+                name: affectedModule
             }
         }
     }
     return lastSingleAffected
 }
 
-const findLastSingleDependency = (levelOneDependency: Dependency, varOut: TFVariableOutput[]) => {
+const findLastSingleDependency = (levelOneDependency: Dependency, varOut: TFVariableOutput[]): Dependency => {
     let lastSingleDependency = levelOneDependency
     const expressionReferences = varOut.filter((v) => v.module === lastSingleDependency.module && v.name === lastSingleDependency.name && v.type === lastSingleDependency.type)[0]?.expressionReferences
     if (expressionReferences && expressionReferences.length === 1) {
@@ -330,27 +237,12 @@ const findLastSingleDependency = (levelOneDependency: Dependency, varOut: TFVari
     return lastSingleDependency
 }
 
-//TODO: need to consider affected inputs of other modules
-//TODO: support nested modules
-
 export const resourceDependencies = (nodes: NodeGroup[], selectedNode: NodeGroup, variables: TFVariableOutput[], outputs: TFVariableOutput[]) => {
     const dependencies = removeDuplicates([...getVarOutDependencies(selectedNode, [...variables, ...outputs]),
-    ...nodes.filter((n) => n.connectionsOut?.includes(selectedNode.id)).map((n) => {
-        return {
-            type: "resource" as any,
-            module: n.moduleName || "root_module",
-            name: n.type + "." + n.name
-        }
-    })
+    ...nodes.filter((n) => n.connectionsOut?.includes(selectedNode.id)).map(toDependency)
     ], selectedNode)
     const affected = removeDuplicates([...getAffectedVarOut(selectedNode, [...variables, ...outputs], nodes),
-    ...nodes.filter((n) => n.connectionsIn?.includes(selectedNode.id)).map((n) => {
-        return {
-            type: "resource" as any,
-            module: n.moduleName || "root_module",
-            name: n.type + "." + n.name
-        }
-    })], selectedNode)
+    ...nodes.filter((n) => n.connectionsIn?.includes(selectedNode.id)).map(toDependency)], selectedNode)
 
     return {
         dependencies,
@@ -358,14 +250,15 @@ export const resourceDependencies = (nodes: NodeGroup[], selectedNode: NodeGroup
     }
 }
 
+// The dependencies of a module are outside of the module and of its nested modules
 export const moduleDependencies = (nodes: NodeGroup[], selectedModule: string, variables: TFVariableOutput[], outputs: TFVariableOutput[]) => {
-    const moduleNodes = nodes.filter((n) => n.moduleName === selectedModule)
+    const moduleNodes = nodes.filter((n) => isInModule(getModulePath(n), selectedModule))
     const deps: Dependency[] = []
     const aff: Dependency[] = []
     moduleNodes.forEach((node) => {
         const { dependencies, affected } = resourceDependencies(nodes, node, variables, outputs)
         dependencies.forEach((d) => {
-            if (!deps.some((dep) => dep.module === d.module) && d.module !== selectedModule)
+            if (!deps.some((dep) => dep.module === d.module) && !isInModule(d.module, selectedModule))
                 deps.push({
                     type: "module" as any,
                     module: d.module,
@@ -373,7 +266,7 @@ export const moduleDependencies = (nodes: NodeGroup[], selectedModule: string, v
                 })
         })
         affected.forEach((a) => {
-            if (!aff.some((dep) => dep.module === a.module) && a.module !== selectedModule)
+            if (!aff.some((dep) => dep.module === a.module) && !isInModule(a.module, selectedModule))
                 aff.push({
                     type: "module" as any,
                     module: a.module,
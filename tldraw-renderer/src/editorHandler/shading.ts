@@ -1,17 +1,19 @@
 import { Editor } from "@tldraw/tldraw";
-import { NodeGroup } from "../TLDWrapper";
+import { NodeGroup } from "../parser/types";
 import { Dependency } from "../dependencies/dependencies";
+import { getNodeGroupId } from "../board/shapeUtils";
+import { getModulePath } from "../utils/modules";
 
 export const computeShading = (selectedNode: NodeGroup, nodeGroups: NodeGroup[], editor: Editor, dependencies: Dependency[], affected: Dependency[]) => {
     const editorShapes = editor.getCurrentPageShapes()
     nodeGroups.forEach((node) => {
-        const shape = editorShapes.find((shape) => shape.id.split(":").length === 3 && shape.id.split(":")[1] === node.id)
+        const shape = editorShapes.find((shape) => shape.type === "node" && getNodeGroupId(shape.id) === node.id)
         if (shape) {
             if (node.id !== selectedNode.id &&
                 !node.connectionsIn.some((connectedId) => connectedId === selectedNode.id) &&
                 !node.connectionsOut.some((connectedId) => connectedId === selectedNode.id) &&
-                !dependencies.some((dep) => dep.type === "resource" && dep.name === node.type + "." + node.name && dep.module === (node.moduleName || "root_module")) &&
-                !affected.some((dep) => dep.type === "resource" && dep.name === node.type + "." + node.name && dep.module === (node.moduleName || "root_module"))
+                !dependencies.some((dep) => dep.type === "resource" && dep.name === node.type + "." + node.name && dep.module === getModulePath(node)) &&
+                !affected.some((dep) => dep.type === "resource" && dep.name === node.type + "." + node.name && dep.module === getModulePath(node))
             ) {
                 editor.updateShape({ ...shape, opacity: 0.2 })
             } else {
@@ -0,0 +1,36 @@
+// The Google Cloud icons are drawn from Material Design Icons and Simple Icons, see public/Icons/GCP/NOTICE.md
+export const googleResourcesCsv = `Service Name,Main Diagram Blocks,Arguments For Name,Missing Resources,Data Sources,Category,Icon Path,Simplified Category
+App Engine,google_app_engine_application,name,"google_app_engine_standard_app_version,google_app_engine_flexible_app_version,google_app_engine_service_split_traffic,google_app_engine_firewall_rule",google_app_engine_default_service_account,Serverless,Icons/GCP/48/GCP_App-Engine_48.svg,Serverless
+Artifact Registry,google_artifact_registry_repository,name,"google_artifact_registry_repository_iam_member,google_artifact_registry_repository_iam_binding","google_artifact_registry_repository,google_artifact_registry_docker_image",Containers,Icons/GCP/48/GCP_Artifact-Registry_48.svg,Container Registry
+BigQuery,google_bigquery_dataset,name,"google_bigquery_table,google_bigquery_routine,google_bigquery_dataset_iam_member,google_bigquery_dataset_iam_binding,google_bigquery_table_iam_member,google_bigquery_table_iam_binding,google_bigquery_data_transfer_config","google_bigquery_dataset,google_bigquery_default_service_account",Data Analytics,Icons/GCP/48/GCP_BigQuery_48.svg,Data Warehouse
+Cloud Armor,google_compute_security_policy,name,,google_compute_security_policy,Security,Icons/GCP/48/GCP_Cloud-Armor_48.svg,Web Security
+Cloud Bigtable,google_bigtable_instance,name,"google_bigtable_table,google_bigtable_app_profile,google_bigtable_gc_policy,google_bigtable_instance_iam_member,google_bigtable_table_iam_member",,Databases,Icons/GCP/48/GCP_Cloud-Bigtable_48.svg,NoSQL Database
+Cloud Composer,google_composer_environment,name,,"google_composer_environment,google_composer_image_versions",Data Analytics,Icons/GCP/48/GCP_Cloud-Composer_48.svg,Data Orchestration
+Cloud DNS,google_dns_managed_zone,name,"google_dns_record_set,google_dns_policy,google_dns_managed_zone_iam_member","google_dns_managed_zone,google_dns_record_set,google_dns_keys",Networking,Icons/GCP/48/GCP_Cloud-DNS_48.svg,DNS
+Cloud Functions,"google_cloudfunctions2_function,google_cloudfunctions_function","name,name","google_cloudfunctions2_function_iam_member,google_cloudfunctions2_function_iam_binding,google_cloudfunctions_function_iam_member,google_cloudfunctions_function_iam_binding","google_cloudfunctions2_function,google_cloudfunctions_function",Serverless,Icons/GCP/48/GCP_Cloud-Functions_48.svg,Serverless
+Cloud KMS,google_kms_key_ring,name,"google_kms_crypto_key,google_kms_crypto_key_iam_member,google_kms_crypto_key_iam_binding,google_kms_key_ring_iam_member,google_kms_key_ring_iam_binding","google_kms_key_ring,google_kms_crypto_key,google_kms_crypto_key_version",Security,Icons/GCP/48/GCP_Cloud-KMS_48.svg,Key Management
+Cloud Load Balancing,"google_compute_global_forwarding_rule,google_compute_forwarding_rule","name,name","google_compute_target_http_proxy,google_compute_target_https_proxy,google_compute_target_tcp_proxy,google_compute_target_pool,google_compute_url_map,google_compute_backend_service,google_compute_region_backend_service,google_compute_backend_bucket,google_compute_health_check,google_compute_managed_ssl_certificate,google_compute_ssl_certificate,google_compute_region_network_endpoint_group,google_compute_global_network_endpoint_group","google_compute_global_forwarding_rule,google_compute_forwarding_rule,google_compute_backend_service",Networking,Icons/GCP/48/GCP_Cloud-Load-Balancing_48.svg,Load Balancing
+Cloud Logging,"google_logging_project_sink,google_logging_metric,google_logging_project_bucket_config","name,name,name",google_logging_project_exclusion,google_logging_project_cmek_settings,Operations,Icons/GCP/48/GCP_Cloud-Logging_48.svg,Logging
+Cloud Monitoring,"google_monitoring_alert_policy,google_monitoring_uptime_check_config,google_monitoring_dashboard","name,name,name",google_monitoring_notification_channel,"google_monitoring_notification_channel,google_monitoring_uptime_check_ips",Operations,Icons/GCP/48/GCP_Cloud-Monitoring_48.svg,Monitoring
+Cloud Run,"google_cloud_run_v2_service,google_cloud_run_service,google_cloud_run_v2_job","name,name,name","google_cloud_run_v2_service_iam_member,google_cloud_run_v2_service_iam_binding,google_cloud_run_service_iam_member,google_cloud_run_service_iam_binding,google_cloud_run_v2_job_iam_member,google_cloud_run_domain_mapping","google_cloud_run_v2_service,google_cloud_run_service,google_cloud_run_v2_job",Serverless,Icons/GCP/48/GCP_Cloud-Run_48.svg,Serverless
+Cloud Scheduler,google_cloud_scheduler_job,name,,,Integration,Icons/GCP/48/GCP_Cloud-Scheduler_48.svg,Workflow
+Cloud Spanner,google_spanner_instance,name,"google_spanner_database,google_spanner_instance_iam_member,google_spanner_instance_iam_binding,google_spanner_database_iam_member,google_spanner_database_iam_binding",google_spanner_instance,Databases,Icons/GCP/48/GCP_Cloud-Spanner_48.svg,Databases
+Cloud SQL,google_sql_database_instance,name,"google_sql_database,google_sql_user,google_sql_ssl_cert","google_sql_database_instance,google_sql_database_instances,google_sql_database,google_sql_ca_certs",Databases,Icons/GCP/48/GCP_Cloud-SQL_48.svg,Databases
+Cloud Storage,google_storage_bucket,name,"google_storage_bucket_object,google_storage_bucket_iam_member,google_storage_bucket_iam_binding,google_storage_bucket_iam_policy,google_storage_bucket_acl,google_storage_notification,google_storage_default_object_access_control","google_storage_bucket,google_storage_bucket_object,google_storage_bucket_object_content,google_storage_project_service_account",Storage,Icons/GCP/48/GCP_Cloud-Storage_48.svg,Storage
+Cloud Tasks,google_cloud_tasks_queue,name,"google_cloud_tasks_queue_iam_member,google_cloud_tasks_queue_iam_binding",,Integration,Icons/GCP/48/GCP_Cloud-Tasks_48.svg,Message Queuing
+Cloud VPN,"google_compute_ha_vpn_gateway,google_compute_vpn_gateway","name,name","google_compute_vpn_tunnel,google_compute_external_vpn_gateway,google_compute_router_interface,google_compute_router_peer","google_compute_ha_vpn_gateway,google_compute_vpn_gateway",Networking,Icons/GCP/48/GCP_Cloud-VPN_48.svg,Networking
+Compute Engine,"google_compute_instance,google_compute_instance_group_manager,google_compute_region_instance_group_manager","name,name,name","google_compute_disk,google_compute_attached_disk,google_compute_instance_template,google_compute_region_instance_template,google_compute_autoscaler,google_compute_region_autoscaler,google_compute_instance_iam_member,google_compute_instance_iam_binding","google_compute_image,google_compute_instance,google_compute_instance_template,google_compute_zones,google_compute_default_service_account",Compute,Icons/GCP/48/GCP_Compute-Engine_48.svg,Compute
+Dataflow,"google_dataflow_job,google_dataflow_flex_template_job","name,name",,,Data Analytics,Icons/GCP/48/GCP_Dataflow_48.svg,Data Processing
+Dataproc,google_dataproc_cluster,name,"google_dataproc_job,google_dataproc_autoscaling_policy,google_dataproc_cluster_iam_member",,Data Analytics,Icons/GCP/48/GCP_Dataproc_48.svg,Data Processing
+External IP Addresses,google_compute_address,name,,"google_compute_address,google_compute_global_address",Networking,Icons/GCP/48/GCP_External-IP-Addresses_48.svg,Networking
+Filestore,google_filestore_instance,name,"google_filestore_backup,google_filestore_snapshot",google_filestore_instance,Storage,Icons/GCP/48/GCP_Filestore_48.svg,Storage
+Firestore,google_firestore_database,name,"google_firestore_index,google_firestore_field,google_firestore_document",google_firestore_document,Databases,Icons/GCP/48/GCP_Firestore_48.svg,NoSQL Database
+Google Kubernetes Engine,google_container_cluster,name,"google_container_node_pool,google_gke_hub_membership","google_container_cluster,google_container_engine_versions,google_client_config",Containers,Icons/GCP/48/GCP_Google-Kubernetes-Engine_48.svg,Container Orchestration
+IAM Custom Roles,"google_project_iam_custom_role,google_organization_iam_custom_role","name,name",,"google_iam_role,google_iam_policy",Security,Icons/GCP/48/GCP_IAM-Custom-Roles_48.svg,IAM
+Memorystore,"google_redis_instance,google_memcache_instance","name,name",,google_redis_instance,Databases,Icons/GCP/48/GCP_Memorystore_48.svg,In-Memory Database
+Pub/Sub,google_pubsub_topic,name,"google_pubsub_subscription,google_pubsub_schema,google_pubsub_topic_iam_member,google_pubsub_topic_iam_binding,google_pubsub_subscription_iam_member,google_pubsub_subscription_iam_binding","google_pubsub_topic,google_pubsub_subscription",Integration,Icons/GCP/48/GCP_Pub-Sub_48.svg,Message Queuing
+Secret Manager,google_secret_manager_secret,name,"google_secret_manager_secret_version,google_secret_manager_secret_iam_member,google_secret_manager_secret_iam_binding","google_secret_manager_secret,google_secret_manager_secret_version",Security,Icons/GCP/48/GCP_Secret-Manager_48.svg,Secrets Management
+Service Accounts,google_service_account,name,"google_service_account_key,google_service_account_iam_member,google_service_account_iam_binding,google_project_iam_member,google_project_iam_binding,google_organization_iam_member,google_folder_iam_member","google_service_account,google_service_account_access_token,google_service_account_key",Security,Icons/GCP/48/GCP_Service-Accounts_48.svg,IAM
+VPC Network,google_compute_network,name,"google_compute_subnetwork,google_compute_firewall,google_compute_route,google_compute_router,google_compute_router_nat,google_compute_global_address,google_service_networking_connection,google_compute_network_peering,google_compute_shared_vpc_host_project,google_compute_shared_vpc_service_project,google_compute_subnetwork_iam_member,google_compute_subnetwork_iam_binding,google_vpc_access_connector","google_compute_network,google_compute_subnetwork",Networking,Icons/GCP/48/GCP_VPC-Network_48.svg,Networking
+Workflows,google_workflows_workflow,name,,,Integration,Icons/GCP/48/GCP_Workflows_48.svg,Workflow
+Workload Identity Federation,google_iam_workload_identity_pool,name,google_iam_workload_identity_pool_provider,google_iam_workload_identity_pool,Security,Icons/GCP/48/GCP_Workload-Identity-Federation_48.svg,Access Management`
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { fromDot } from "ts-graphviz"
+import { NodeGroup } from "../parser/types"
+import { mergeGraphModels, mergePlans, setComparisonStates } from "./comparePlans"
+
+const resourceChange = (address: string, actions: string[], after: any = {}) => ({
+    address,
+    change: { actions, before: {}, after }
+})
+
+describe("mergePlans", () => {
+    const planA = {
+        format_version: "1.2",
+        resource_changes: [
+            resourceChange("aws_s3_bucket.same", ["create"], { bucket: "same" }),
+            resourceChange("aws_s3_bucket.different", ["no-op"], { bucket: "a" }),
+            resourceChange("aws_s3_bucket.a", ["create"])
+        ]
+    }
+    const planB = {
+        resource_changes: [
+            resourceChange("aws_s3_bucket.same", ["create"], { bucket: "same" }),
+            resourceChange("aws_s3_bucket.different", ["update"], { bucket: "b" }),
+            resourceChange("aws_s3_bucket.b", ["delete"])
+        ]
+    }
+    const merged = mergePlans(planA, planB)
+    const byAddress = (address: string) => merged.resource_changes.find((rc: any) => rc.address === address)
+
+    it("compares the changes of the resources of both plans", () => {
+        expect(merged.resource_changes.map((rc: any) => [rc.address, rc.comparison])).toEqual([
+            ["aws_s3_bucket.same", "same"],
+            ["aws_s3_bucket.different", "different"],
+            ["aws_s3_bucket.a", "only-a"],
+            ["aws_s3_bucket.b", "only-b"]
+        ])
+        expect(merged.format_version).toBe("1.2")
+    })
+
+    it("keeps both changes, and shows the one that changes something", () => {
+        const different = byAddress("aws_s3_bucket.different")
+        expect(different.changeA.actions).toEqual(["no-op"])
+        expect(different.changeB.actions).toEqual(["update"])
+        expect(different.change.actions).toEqual(["update"])
+        expect(byAddress("aws_s3_bucket.a").changeB).toBeUndefined()
+        expect(byAddress("aws_s3_bucket.b").changeA).toBeUndefined()
+    })
+})
+
+describe("mergeGraphModels", () => {
+    it("adds the nodes and edges that are only in the second graph", () => {
+        const modelA = fromDot(`digraph { subgraph "root" { "[root] aws_s3_bucket.a (expand)" } }`)
+        const modelB = fromDot(`digraph { subgraph "root" {
+            "[root] aws_s3_bucket.a (expand)"
+            "[root] aws_s3_bucket_policy.b (expand)"
+            "[root] aws_s3_bucket_policy.b (expand)" -> "[root] aws_s3_bucket.a (expand)"
+        } }`)
+        const subgraph = mergeGraphModels(modelA, modelB).subgraphs[0]
+        expect(subgraph.nodes.map((node) => node.id)).toEqual(["[root] aws_s3_bucket.a (expand)", "[root] aws_s3_bucket_policy.b (expand)"])
+        expect(subgraph.edges.map((edge) => edge.targets.map((target: any) => target.id))).toEqual([
+            ["[root] aws_s3_bucket_policy.b (expand)", "[root] aws_s3_bucket.a (expand)"]
+        ])
+    })
+})
+
+describe("setComparisonStates", () => {
+    const nodeGroup = (comparisons: string[]) => ({
+        nodes: comparisons.map((comparison) => ({ resourceChanges: [{ comparison }] }))
+    } as any as NodeGroup)
+
+    it("gives each node group the comparison of its resources, or different when they do not agree", () => {
+        const nodeGroups = new Map<string, NodeGroup>([
+            ["same", nodeGroup(["same", "same"])],
+            ["mixed", nodeGroup(["same", "only-b"])],
+            ["none", nodeGroup([])]
+        ])
+        setComparisonStates(nodeGroups)
+        expect(nodeGroups.get("same")!.comparison).toBe("same")
+        expect(nodeGroups.get("mixed")!.comparison).toBe("different")
+        expect(nodeGroups.get("none")!.comparison).toBeUndefined()
+    })
+})
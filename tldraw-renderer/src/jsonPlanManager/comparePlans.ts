@@ -0,0 +1,93 @@
+import { RootGraphModel } from "ts-graphviz";
+import { ComparisonState, NodeGroup } from "../parser/types";
+import isEqual from "lodash.isequal";
+
+const isUnchanged = (change: any) => {
+    return !change || change.actions.every((action: string) => ["no-op", "read"].includes(action))
+}
+
+// Merges the resource changes of two plans. Each merged change keeps both original changes in
+// changeA and changeB, while "change" is the one that actually changes something, if any.
+export const mergePlans = (planA: any, planB: any) => {
+    const changesA = new Map<string, any>((planA?.resource_changes || []).map((rc: any) => [rc.address, rc]))
+    const changesB = new Map<string, any>((planB?.resource_changes || []).map((rc: any) => [rc.address, rc]))
+
+    const merged = (planA?.resource_changes || []).map((rcA: any) => {
+        const rcB = changesB.get(rcA.address)
+        return {
+            ...rcA,
+            change: rcB && isUnchanged(rcA.change) && !isUnchanged(rcB.change) ? rcB.change : rcA.change,
+            changeA: rcA.change,
+            changeB: rcB?.change,
+            comparison: (!rcB ? "only-a" : isEqual(rcA.change, rcB.change) ? "same" : "different") as ComparisonState
+        }
+    })
+    const onlyB = (planB?.resource_changes || []).filter((rcB: any) => !changesA.has(rcB.address)).map((rcB: any) => {
+        return {
+            ...rcB,
+            changeA: undefined,
+            changeB: rcB.change,
+            comparison: "only-b" as ComparisonState
+        }
+    })
+
+    return {
+        ...planA,
+        resource_changes: [...merged, ...onlyB]
+    }
+}
+
+// Adds the nodes and edges of the second graph that are missing in the first one
+export const mergeGraphModels = (modelA: RootGraphModel, modelB: RootGraphModel) => {
+    const subgraphA = modelA.subgraphs[0]
+    const subgraphB = modelB.subgraphs[0]
+    if (!subgraphA || !subgraphB) return modelA
+    const nodeIdsA = new Set(subgraphA.nodes.map((node) => node.id))
+    subgraphB.nodes.filter((node) => !nodeIdsA.has(node.id)).forEach((node) => {
+        subgraphA.createNode(node.id)
+    })
+    subgraphB.edges.forEach((edge) => {
+        const fromId = (edge.targets[0] as any).id
+        const toId = (edge.targets[1] as any).id
+        if (!nodeIdsA.has(fromId) || !nodeIdsA.has(toId)) {
+            subgraphA.createEdge([fromId, toId])
+        }
+    })
+    return modelA
+}
+
+export const setComparisonStates = (nodeGroups: Map<string, NodeGroup>) => {
+    nodeGroups.forEach((nodeGroup) => {
+        const comparisons: ComparisonState[] = nodeGroup.nodes.map((node) => (node.resourceChanges || [])
+            .map((rc) => rc.comparison)).flat().filter((c) => c !== undefined)
+        if (comparisons.length === 0) return
+        const first = comparisons[0]
+        nodeGroup.comparison = comparisons.every((c) => c === first) ? first : "different"
+    })
+}
+
+export const getComparisonColor = (comparison: string) => {
+    switch (comparison) {
+        case "only-a":
+            return "#2563EB"
+        case "only-b":
+            return "#9F50DA"
+        case "different":
+            return "#DB2777"
+        default:
+            return ""
+    }
+}
+
+export const getComparisonLabel = (comparison: string) => {
+    switch (comparison) {
+        case "only-a":
+            return "A only"
+        case "only-b":
+            return "B only"
+        case "different":
+            return "A ≠ B"
+        default:
+            return ""
+    }
+}
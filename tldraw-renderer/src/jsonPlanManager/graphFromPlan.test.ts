@@ -0,0 +1,64 @@
+import { graphFromPlanJson } from "./graphFromPlan"
+
+const planJsonObj = {
+    configuration: {
+        root_module: {
+            resources: [
+                { address: "aws_s3_bucket.b", expressions: { bucket: { constant_value: "b" } } },
+                {
+                    address: "aws_s3_bucket_policy.p",
+                    expressions: {
+                        bucket: { references: ["aws_s3_bucket.b.id", "aws_s3_bucket.b"] },
+                        policy: { references: ["local.policy"] }
+                    }
+                },
+                {
+                    address: "aws_lambda_function.f",
+                    expressions: { role: { references: ["module.svc.role_arn", "module.svc"] } },
+                    depends_on: ["aws_s3_bucket_policy.p"]
+                }
+            ],
+            module_calls: {
+                svc: {
+                    expressions: { bucket: { references: ["aws_s3_bucket.b.arn", "aws_s3_bucket.b"] } },
+                    module: {
+                        resources: [
+                            { address: "aws_iam_role.r", expressions: { inline_policy: [{ policy: { references: ["var.bucket"] } }] } }
+                        ],
+                        outputs: {
+                            role_arn: { expression: { references: ["aws_iam_role.r.arn", "aws_iam_role.r"] } }
+                        }
+                    }
+                }
+            }
+        }
+    }
+}
+
+const edges = (plan: any) => graphFromPlanJson(plan).subgraphs[0].edges.map((edge) => {
+    return edge.targets.map((target: any) => target.id.split(" ")[1]).join(" -> ")
+})
+
+describe("graphFromPlanJson", () => {
+    it("adds a node for each resource of each module, like terraform graph", () => {
+        expect(graphFromPlanJson(planJsonObj).subgraphs[0].nodes.map((node) => node.id)).toEqual([
+            "[root] aws_s3_bucket.b (expand)",
+            "[root] aws_s3_bucket_policy.p (expand)",
+            "[root] aws_lambda_function.f (expand)",
+            "[root] module.svc.aws_iam_role.r (expand)"
+        ])
+    })
+
+    it("connects the resources to the resources they reference, through variables and module outputs", () => {
+        expect(edges(planJsonObj)).toEqual([
+            "aws_s3_bucket_policy.p -> aws_s3_bucket.b",
+            "aws_lambda_function.f -> module.svc.aws_iam_role.r",
+            "aws_lambda_function.f -> aws_s3_bucket_policy.p",
+            "module.svc.aws_iam_role.r -> aws_s3_bucket.b"
+        ])
+    })
+
+    it("builds an empty graph without a configuration", () => {
+        expect(graphFromPlanJson({ resource_changes: [] }).subgraphs[0].nodes).toEqual([])
+    })
+})
@@ -0,0 +1,103 @@
+import { Digraph, RootGraphModel } from "ts-graphviz"
+
+type ModuleScope = {
+    prefix: string,
+    module: any,
+    moduleCall?: any,
+    parent?: ModuleScope
+}
+
+const ignoredReferencePrefixes = ["local", "count", "each", "path", "terraform", "self"]
+
+const graphNodeId = (address: string) => "[root] " + address + " (expand)"
+
+// Collects every "references" list found in a (possibly nested) expressions object
+const collectReferences = (expressions: any): string[] => {
+    const references: string[] = []
+    if (Array.isArray(expressions)) {
+        expressions.forEach((item) => references.push(...collectReferences(item)))
+    } else if (typeof expressions === "object" && expressions !== null) {
+        Object.entries(expressions).forEach(([key, value]) => {
+            if (key === "references" && Array.isArray(value)) {
+                references.push(...value.filter((r) => typeof r === "string"))
+            } else {
+                references.push(...collectReferences(value))
+            }
+        })
+    }
+    return references
+}
+
+const getChildScope = (scope: ModuleScope, moduleName: string): ModuleScope | undefined => {
+    const moduleCall = scope.module?.module_calls?.[moduleName]
+    if (!moduleCall) return undefined
+    return {
+        prefix: scope.prefix + "module." + moduleName + ".",
+        module: moduleCall.module,
+        moduleCall,
+        parent: scope
+    }
+}
+
+const resolveReference = (reference: string, scope: ModuleScope, visited: Set<string>): string[] => {
+    const parts = reference.replace(/\[[^\]]*\]/g, "").split(".")
+    const visitKey = scope.prefix + parts.slice(0, 3).join(".")
+    if (visited.has(visitKey) || ignoredReferencePrefixes.includes(parts[0])) return []
+    visited.add(visitKey)
+
+    if (parts[0] === "var") {
+        // A variable of a child module points to the expression passed by its module call
+        if (!scope.parent || !scope.moduleCall) return []
+        return collectReferences(scope.moduleCall.expressions?.[parts[1]]).flatMap((r) => resolveReference(r, scope.parent!, visited))
+    }
+
+    if (parts[0] === "module") {
+        const childScope = getChildScope(scope, parts[1])
+        if (!childScope) return []
+        const outputs = childScope.module?.outputs || {}
+        const outputNames = parts[2] ? [parts[2]] : Object.keys(outputs)
+        return outputNames.flatMap((outputName) =>
+            collectReferences(outputs[outputName]?.expression).flatMap((r) => resolveReference(r, childScope, visited)))
+    }
+
+    const address = parts[0] === "data" ? parts.slice(0, 3).join(".") : parts.slice(0, 2).join(".")
+    const resourceExists = (scope.module?.resources || []).some((resource: any) => resource.address === address)
+    return resourceExists ? [scope.prefix + address] : []
+}
+
+const getResourceDependencies = (resource: any, scope: ModuleScope) => {
+    const references = [
+        ...collectReferences(resource.expressions),
+        ...collectReferences(resource.count_expression),
+        ...collectReferences(resource.for_each_expression),
+        ...(resource.depends_on || [])
+    ]
+    return references.flatMap((r) => resolveReference(r, scope, new Set<string>()))
+}
+
+// Builds a graph equivalent to the output of "terraform graph", from the expression references
+// in the configuration of a plan JSON. Edges go from a resource to the resources it depends on.
+export const graphFromPlanJson = (planJsonObj: any): RootGraphModel => {
+    const graph = new Digraph()
+    const subgraph = graph.createSubgraph("root")
+
+    const addModule = (scope: ModuleScope) => {
+        (scope.module?.resources || []).forEach((resource: any) => {
+            const address = scope.prefix + resource.address
+            subgraph.createNode(graphNodeId(address))
+            Array.from(new Set(getResourceDependencies(resource, scope))).forEach((dependency) => {
+                if (dependency !== address) {
+                    subgraph.createEdge([graphNodeId(address), graphNodeId(dependency)])
+                }
+            })
+        })
+        Object.keys(scope.module?.module_calls || {}).forEach((moduleName) => {
+            const childScope = getChildScope(scope, moduleName)
+            if (childScope) addModule(childScope)
+        })
+    }
+
+    addModule({ prefix: "", module: planJsonObj?.configuration?.root_module })
+
+    return graph
+}
@@ -0,0 +1,48 @@
+import { getChangeState, getChangesBreakdown, getPlanAction, isMovedChange } from "./jsonPlanManager"
+
+const resourceChange = (address: string, actions: string[], previousAddress?: string) => ({
+    address,
+    previous_address: previousAddress,
+    change: { actions }
+})
+
+describe("isMovedChange", () => {
+    it("detects the changes with a different previous address", () => {
+        expect(isMovedChange(resourceChange("aws_s3_bucket.new", ["no-op"], "aws_s3_bucket.old"))).toBe(true)
+        expect(isMovedChange(resourceChange("aws_s3_bucket.b", ["no-op"], "aws_s3_bucket.b"))).toBe(false)
+        expect(isMovedChange(resourceChange("aws_s3_bucket.b", ["update"]))).toBe(false)
+    })
+})
+
+describe("getChangeState", () => {
+    it("gives the moves without other changes their own state", () => {
+        expect(getChangeState(resourceChange("aws_s3_bucket.new", ["no-op"], "aws_s3_bucket.old"))).toBe("moved")
+        expect(getChangeState(resourceChange("aws_s3_bucket.new", ["update"], "aws_s3_bucket.old"))).toBe("update")
+    })
+
+    it("joins the actions of the replacements", () => {
+        expect(getChangeState(resourceChange("aws_s3_bucket.b", ["delete", "create"]))).toBe("delete-create")
+        expect(getChangeState(resourceChange("aws_s3_bucket.b", ["create", "delete"]))).toBe("create-delete")
+    })
+})
+
+describe("getPlanAction", () => {
+    it("maps the replacements to replace, and the moves to no-op", () => {
+        expect(getPlanAction("delete-create")).toBe("replace")
+        expect(getPlanAction("create-delete")).toBe("replace")
+        expect(getPlanAction("moved")).toBe("no-op")
+        expect(getPlanAction("update")).toBe("update")
+    })
+})
+
+describe("getChangesBreakdown", () => {
+    it("counts the moves on their own, and also as their other actions", () => {
+        expect(getChangesBreakdown([
+            resourceChange("aws_s3_bucket.a", ["no-op"], "aws_s3_bucket.old_a"),
+            resourceChange("aws_s3_bucket.b", ["update"], "aws_s3_bucket.old_b"),
+            resourceChange("aws_s3_bucket.c", ["delete", "create"]),
+            resourceChange("aws_s3_bucket.d", ["create"]),
+            resourceChange("aws_s3_bucket.e", ["no-op"])
+        ])).toEqual({ create: 1, update: 2, delete: 0, moved: 2, unchanged: 1 })
+    })
+})
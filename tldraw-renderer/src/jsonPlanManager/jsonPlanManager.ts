@@ -1,4 +1,4 @@
-const isEqual = require('lodash.isequal');
+import isEqual from "lodash.isequal";
 
 const stringify = (value: any, indentLevel: number = 1): string => {
     const indent = '&nbsp;'.repeat(indentLevel * 4);
@@ -64,27 +64,34 @@ const getColoredAction = (action: string) => {
             return `<span class="red-text">${action}</span>`
         case "no-op":
             return `<span class="gray-text">unchanged</span>`
+        case "moved":
+            return `<span class="blue-text">${action}</span>`
         default:
             return action
     }
 }
 
-const getChanges = (result: string, before: any, after: any, after_unknown: any, showAll: boolean) => {
+// Marks the attributes that force the replacement of the resource, like "terraform plan" does
+const replaceMarker = (key: string, replaceKeys: string[]) => {
+    return replaceKeys.includes(key) ? ` <span class="red-text"># forces replacement</span>` : '';
+}
+
+const getChanges = (result: string, before: any, after: any, after_unknown: any, showAll: boolean, replaceKeys: string[] = []) => {
     before && Object.entries(before).forEach(([key, value]) => {
         const valueString = getValueString(value);
         if (isValid(value) && after && isValid(after[key])) {
             if (!isEqual(after[key], value)) {
                 const afterValueString = getValueString(after[key]);
                 if (afterValueString !== '') {
-                    result += `<span class="yellow-text">~</span> ${key} = ${valueString} <span class="yellow-text">-></span> ${afterValueString}<br>`;
+                    result += `<span class="yellow-text">~</span> ${key} = ${valueString} <span class="yellow-text">-></span> ${afterValueString}${replaceMarker(key, replaceKeys)}<br>`;
                 }
             } else {
                 if (valueString !== '' && showAll) {
                     result += `<span class="gray-text">#</span> ${key} = ${valueString}<br>`;
                 }
             }
-        } else if (isValid(value) && showAll && after_unknown && after_unknown[key] === true) {
-            result += `<span class="yellow-text">~</span> ${key} = ${valueString} <span class="yellow-text">-></span> (known after apply)<br>`;
+        } else if (isValid(value) && (showAll || replaceKeys.includes(key)) && after_unknown && after_unknown[key] === true) {
+            result += `<span class="yellow-text">~</span> ${key} = ${valueString} <span class="yellow-text">-></span> (known after apply)${replaceMarker(key, replaceKeys)}<br>`;
         }
     });
 
@@ -92,14 +99,14 @@ const getChanges = (result: string, before: any, after: any, after_unknown: any,
         if (isValid(value) && (!before || !isValid(before[key]))) {
             const valueString = getValueString(value);
             if (valueString !== '') {
-                result += `<span class="green-text">+</span> ${key} = ${valueString}<br>`;
+                result += `<span class="green-text">+</span> ${key} = ${valueString}${replaceMarker(key, replaceKeys)}<br>`;
             }
         }
     });
 
-    showAll && after_unknown && Object.entries(after_unknown).forEach(([key, value]) => {
-        if (value === true && (!before || !before.hasOwnProperty(key) || !isValid(before[key]))) {
-            result += `<span class="green-text">+</span> ${key} = (known after apply)<br>`;
+    after_unknown && Object.entries(after_unknown).forEach(([key, value]) => {
+        if ((showAll || replaceKeys.includes(key)) && value === true && (!before || !before.hasOwnProperty(key) || !isValid(before[key]))) {
+            result += `<span class="green-text">+</span> ${key} = (known after apply)${replaceMarker(key, replaceKeys)}<br>`;
         }
     });
 
@@ -107,7 +114,7 @@ const getChanges = (result: string, before: any, after: any, after_unknown: any,
         if (isValid(value) && (!after || !after.hasOwnProperty(key) || !isValid(after[key])) && (!after_unknown || after_unknown[key] === false)) {
             const valueString = getValueString(value);
             if (valueString !== '') {
-                result += `<span class="red-text">-</span> ${key} = ${valueString}<br>`;
+                result += `<span class="red-text">-</span> ${key} = ${valueString}${replaceMarker(key, replaceKeys)}<br>`;
             }
         }
     });
@@ -119,14 +126,94 @@ const getResourceId = (mainNodeChange: any) => {
     return mainNodeChange?.change?.before?.id || mainNodeChange?.change?.after?.id;
 }
 
+const getActionReasonText = (actionReason: string) => {
+    switch (actionReason) {
+        case "replace_because_tainted":
+            return "the object is tainted"
+        case "replace_because_cannot_update":
+            return "some attributes cannot be updated in-place"
+        case "replace_by_request":
+            return "replacement was requested with -replace"
+        case "replace_by_triggers":
+            return "replace_triggered_by references changed"
+        case "delete_because_no_resource_config":
+            return "the resource is not in the configuration anymore"
+        case "delete_because_no_module":
+            return "the module is not in the configuration anymore"
+        case "delete_because_wrong_repetition":
+            return "the repetition mode of the resource changed"
+        case "delete_because_count_index":
+            return "the count index is out of range"
+        case "delete_because_each_key":
+            return "the for_each key is not in the map anymore"
+        case "delete_because_no_move_target":
+            return "the target of a moved block does not exist"
+        case "read_because_config_unknown":
+            return "the configuration is only known after apply"
+        case "read_because_dependency_pending":
+            return "a dependency has pending changes"
+        default:
+            return actionReason
+    }
+}
+
+// replace_paths are paths into the attributes, e.g. [["ami"], ["network_interface", 0, "subnet_id"]].
+// The diff shows top-level attributes only, so only the first step of each path is kept.
+const getReplaceKeys = (replacePaths: any[] | undefined): string[] => {
+    return Array.from(new Set((replacePaths || []).map((replacePath) => {
+        return Array.isArray(replacePath) ? replacePath[0] : replacePath
+    }).filter((key) => typeof key === "string")))
+}
+
+// A resource is moved when its address changed, through a "moved" block or a rename
+export const isMovedChange = (nodeChange: any) => {
+    return !!nodeChange.previous_address && nodeChange.previous_address !== nodeChange.address
+}
+
+// The state of a single resource change. Moves without other changes get their own "moved" state.
+export const getChangeState = (nodeChange: any) => {
+    const state = nodeChange.change.actions.join("-")
+    return ["no-op", "read"].includes(state) && isMovedChange(nodeChange) ? "moved" : state
+}
+
+// The actions the diagram can be filtered by
+export type PlanAction = "create" | "update" | "delete" | "replace" | "read" | "no-op"
+export const planActions: PlanAction[] = ["create", "update", "delete", "replace", "read", "no-op"]
+
+// Replacements are "delete-create" or "create-delete", and moves without other changes count as unchanged
+export const getPlanAction = (state: string): PlanAction => {
+    switch (state) {
+        case "create":
+        case "update":
+        case "delete":
+        case "read":
+            return state
+        case "delete-create":
+        case "create-delete":
+            return "replace"
+        default:
+            return "no-op"
+    }
+}
+
 export const nodeChangesToString = (nodeChanges: Object[], showAll: boolean) => {
     let result = "";
     nodeChanges.forEach((nodeChange: any, index) => {
         result += `${nodeChange.address}:<br>\
-        actions: ${nodeChange.change.actions.map((action: string) => {
+        actions: ${(getChangeState(nodeChange) === "moved" ? ["moved"] : nodeChange.change.actions).map((action: string) => {
             return getColoredAction(action);
         }).join(", ")}<br>`;
-        result = getChanges(result, nodeChange.change.before, nodeChange.change.after, nodeChange.change.after_unknown, showAll)
+        if (isMovedChange(nodeChange)) {
+            result += `moved: ${nodeChange.previous_address} <span class="blue-text">-></span> ${nodeChange.address}<br>`;
+        }
+        if (nodeChange.action_reason) {
+            result += `reason: <span class="red-text">${getActionReasonText(nodeChange.action_reason)}</span><br>`;
+        }
+        const replaceKeys = getReplaceKeys(nodeChange.change.replace_paths)
+        if (replaceKeys.length > 0) {
+            result += `replaced because of: ${replaceKeys.map((key) => `<span class="red-text">${key}</span>`).join(", ")}<br>`;
+        }
+        result = getChanges(result, nodeChange.change.before, nodeChange.change.after, nodeChange.change.after_unknown, showAll, replaceKeys)
         if (index !== nodeChanges.length - 1) {
             result += "<br><br>"
         }
@@ -139,6 +226,7 @@ export type ChangesBreakdown = {
     create: number;
     update: number;
     delete: number;
+    moved: number;
     unchanged: number;
 }
 
@@ -147,10 +235,16 @@ export const getChangesBreakdown = (nodeChanges: Object[]) => {
         create: 0,
         update: 0,
         delete: 0,
+        moved: 0,
         unchanged: 0
     };
 
     nodeChanges.forEach((nodeChange: any) => {
+        // Moves are counted on their own, and also as their other actions, if any
+        if (isMovedChange(nodeChange)) {
+            breakdown.moved++;
+            if (getChangeState(nodeChange) === "moved") return;
+        }
         if (nodeChange.change.actions) {
             if (nodeChange.change.actions.length === 1) {
                 switch (nodeChange.change.actions[0]) {
@@ -0,0 +1,45 @@
+import { NodeGroup } from "../parser/types"
+import { getPlanSummary, planSummaryToMarkdown } from "./planSummary"
+
+const resourceChange = (address: string, actions: string[], moduleAddress?: string) => ({
+    address,
+    module_address: moduleAddress,
+    change: { actions }
+})
+
+const bucket = resourceChange("aws_s3_bucket.b", ["create"])
+const role = resourceChange("module.svc[\"a|b\"].aws_iam_role.r", ["delete", "create"], "module.svc[\"a|b\"]")
+const queue = resourceChange("aws_sqs_queue.q", ["no-op"])
+
+const nodeGroup = (category: string, resourceChanges: any[]) => ({
+    category,
+    nodes: [{ resourceChanges }]
+} as any as NodeGroup)
+
+const summary = getPlanSummary({ resource_changes: [bucket, role, queue] }, [
+    nodeGroup("Storage", [bucket]),
+    nodeGroup("Access Management", [role]),
+    nodeGroup("Unknown category", [queue])
+])
+
+describe("getPlanSummary", () => {
+    it("counts the changes of the whole plan and of each module", () => {
+        expect(summary.total).toEqual({ create: 1, update: 1, delete: 0, moved: 0, unchanged: 1 })
+        expect(summary.modules.map((module) => module.module)).toEqual(["module.svc[\"a|b\"]", "root_module"])
+        expect(summary.modules[1].changes).toEqual({ create: 1, update: 0, delete: 0, moved: 0, unchanged: 1 })
+    })
+
+    it("counts the changes of each category, with the other categories last", () => {
+        expect(summary.categories.map((category) => category.category)).toEqual(["Security", "Storage", "Other"])
+        expect(summary.categories[0].changes.update).toBe(1)
+    })
+})
+
+describe("planSummaryToMarkdown", () => {
+    it("writes a table per summary, and escapes the pipes of the names", () => {
+        const markdown = planSummaryToMarkdown(summary)
+        expect(markdown).toContain("| **Total** | 1 | 1 | 0 | 0 | 1 |")
+        expect(markdown).toContain("| `module.svc[\"a\\|b\"]` | 0 | 1 | 0 | 0 | 0 |")
+        expect(markdown).toContain("| Other | 0 | 0 | 0 | 0 | 1 |")
+    })
+})
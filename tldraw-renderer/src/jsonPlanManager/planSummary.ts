@@ -0,0 +1,68 @@
+import { NodeGroup } from "../parser/types";
+import { getMacroCategory } from "../utils/awsCategories";
+import { ChangesBreakdown, getChangesBreakdown } from "./jsonPlanManager";
+
+export type PlanSummary = {
+    total: ChangesBreakdown,
+    modules: { module: string, changes: ChangesBreakdown }[],
+    categories: { category: string, changes: ChangesBreakdown }[]
+}
+
+const sortCategories = (a: string, b: string) => {
+    const arg1 = a === "Other" ? "Z" : a
+    const arg2 = b === "Other" ? "Z" : b
+    return arg1.localeCompare(arg2)
+}
+
+// Counts the changes of the plan, per module and per category of the node groups
+export const getPlanSummary = (planJsonObj: any, nodeGroups: NodeGroup[]): PlanSummary => {
+    const resourceChanges: any[] = planJsonObj?.resource_changes || []
+
+    const moduleNames = Array.from(new Set(resourceChanges.map((change) => change.module_address || "root_module")))
+    const modules = moduleNames.sort().map((module) => {
+        return {
+            module,
+            changes: getChangesBreakdown(resourceChanges.filter((change) => (change.module_address || "root_module") === module))
+        }
+    })
+
+    const categoryNames = Array.from(new Set(nodeGroups.map((nodeGroup) => getMacroCategory(nodeGroup.category))))
+    const categories = categoryNames.sort(sortCategories).map((category) => {
+        return {
+            category,
+            changes: getChangesBreakdown(nodeGroups.filter((nodeGroup) => getMacroCategory(nodeGroup.category) === category)
+                .map((nodeGroup) => nodeGroup.nodes.map((node) => node.resourceChanges || []).flat()).flat())
+        }
+    })
+
+    return {
+        total: getChangesBreakdown(resourceChanges),
+        modules,
+        categories
+    }
+}
+
+const markdownRow = (name: string, changes: ChangesBreakdown) => {
+    return `| ${name.replace(/\|/g, "\\|")} | ${changes.create} | ${changes.update} | ${changes.delete} | ${changes.moved} | ${changes.unchanged} |`
+}
+
+export const planSummaryToMarkdown = (summary: PlanSummary) => {
+    const header = (title: string) => [`| ${title} | Create | Update | Delete | Moved | Unchanged |`, "|---|---:|---:|---:|---:|---:|"]
+    return [
+        "## Terraform plan summary",
+        "",
+        ...header(""),
+        markdownRow("**Total**", summary.total),
+        "",
+        "### Modules",
+        "",
+        ...header("Module"),
+        ...summary.modules.map((module) => markdownRow("`" + module.module + "`", module.changes)),
+        "",
+        "### Categories",
+        "",
+        ...header("Category"),
+        ...summary.categories.map((category) => markdownRow(category.category, category.changes)),
+        ""
+    ].join("\n")
+}
@@ -0,0 +1,78 @@
+import dagre from "dagre"
+import { arrangeForce, arrangeGrid, getForceIterations, layoutCompoundGraph } from "./compoundLayout"
+
+// Two resources and a frame at the top level, the frame holds three resources and a nested frame with two resources
+const buildGraph = () => {
+    const g = new dagre.graphlib.Graph({ compound: true })
+    const nodes: [string, string?][] = [
+        ["a"], ["b"], ["module.svc"],
+        ["module.svc.c", "module.svc"], ["module.svc.d", "module.svc"], ["module.svc.e", "module.svc"],
+        ["module.svc.module.db", "module.svc"],
+        ["module.svc.module.db.f", "module.svc.module.db"], ["module.svc.module.db.g", "module.svc.module.db"]
+    ]
+    nodes.forEach(([id, parent]) => {
+        g.setNode(id, { width: 100, height: 80 })
+        if (parent) g.setParent(id, parent)
+    })
+    g.setEdge("a", "module.svc.c")
+    g.setEdge("module.svc.c", "module.svc.d")
+    g.setEdge("module.svc.module.db.f", "module.svc.module.db.g")
+    g.setEdge("b", "module.svc.module.db.g")
+    return g
+}
+
+const layout = (arrange: typeof arrangeGrid) => {
+    const g = buildGraph()
+    layoutCompoundGraph(g, arrange)
+    return g
+}
+
+const bounds = (g: dagre.graphlib.Graph, id: string) => {
+    const node = g.node(id)
+    return { left: node.x - node.width / 2, top: node.y - node.height / 2, right: node.x + node.width / 2, bottom: node.y + node.height / 2 }
+}
+
+const getChildren = (g: dagre.graphlib.Graph, parent?: string) => {
+    return g.nodes().filter((id) => g.parent(id) === parent)
+}
+
+describe.each([
+    ["grid", arrangeGrid],
+    ["force", arrangeForce]
+])("the %s layout", (_name, arrange) => {
+    it("places the nodes at the same positions on every run", () => {
+        const positions = (g: dagre.graphlib.Graph) => g.nodes().map((id) => [id, g.node(id).x, g.node(id).y, g.node(id).width, g.node(id).height])
+        expect(positions(layout(arrange))).toEqual(positions(layout(arrange)))
+    })
+
+    it("keeps the children inside their frame", () => {
+        const g = layout(arrange)
+        g.nodes().filter((id) => g.parent(id)).forEach((id) => {
+            const child = bounds(g, id), frame = bounds(g, g.parent(id) as string)
+            expect(child.left).toBeGreaterThanOrEqual(frame.left)
+            expect(child.top).toBeGreaterThanOrEqual(frame.top)
+            expect(child.right).toBeLessThanOrEqual(frame.right)
+            expect(child.bottom).toBeLessThanOrEqual(frame.bottom)
+        })
+    })
+
+    it("does not overlap the children of a frame", () => {
+        const g = layout(arrange);
+        [undefined, "module.svc", "module.svc.module.db"].forEach((parent) => {
+            const ids = getChildren(g, parent)
+            ids.forEach((id, i) => ids.slice(i + 1).forEach((other) => {
+                const a = bounds(g, id), b = bounds(g, other)
+                expect(a.right <= b.left || b.right <= a.left || a.bottom <= b.top || b.bottom <= a.top).toBe(true)
+            }))
+        })
+    })
+})
+
+describe("getForceIterations", () => {
+    it("lowers the iterations of the frames with many children, down to a minimum", () => {
+        expect(getForceIterations(2)).toBe(300)
+        expect(getForceIterations(100)).toBe(300)
+        expect(getForceIterations(400)).toBe(37)
+        expect(getForceIterations(2000)).toBe(30)
+    })
+})
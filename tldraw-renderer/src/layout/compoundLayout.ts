@@ -0,0 +1,167 @@
+import dagre from "dagre";
+
+const framePadding = 40, nodeGap = 60
+const maxForceIterations = 300, minForceIterations = 30, overlapIterations = 50
+// Each iteration of the force layout computes the repulsion of every pair of children, so the frames with many children
+// get fewer iterations, and a less settled layout, to stay within about this many pair computations
+const forcePairsBudget = 3000000
+// Keeps the unconnected children close to the others
+const gravity = 0.2
+
+type Arrange = (g: dagre.graphlib.Graph, ids: string[], edges: [string, string][]) => void
+
+const getChildren = (g: dagre.graphlib.Graph, parent?: string) => {
+    if (!parent) return g.nodes().filter((id) => !g.parent(id))
+    return (g.children(parent) || []) as unknown as string[]
+}
+
+// The edges between the descendants of the children of a frame are edges between the children
+const getLiftedEdges = (g: dagre.graphlib.Graph, ids: string[], parent?: string) => {
+    const childOfParent = (id: string): string | undefined => {
+        const idParent = g.parent(id) as string | undefined
+        if (idParent === parent) return id
+        return idParent ? childOfParent(idParent) : undefined
+    }
+    const edges = new Map<string, [string, string]>()
+    g.edges().forEach((edge) => {
+        const from = childOfParent(edge.v), to = childOfParent(edge.w)
+        if (from && to && from !== to && ids.includes(from) && ids.includes(to)) {
+            edges.set(from + " " + to, [from, to])
+        }
+    })
+    return Array.from(edges.values())
+}
+
+// Lays out the children of each frame on their own, from the innermost frames, and sizes the frames around their children.
+// The positions are relative to the parent frame, until all the frames are laid out.
+export const layoutCompoundGraph = (g: dagre.graphlib.Graph, arrange: Arrange) => {
+    const layoutChildren = (parent?: string) => {
+        const ids = getChildren(g, parent)
+        ids.filter((id) => getChildren(g, id).length > 0).forEach((id) => layoutChildren(id))
+        arrange(g, ids, getLiftedEdges(g, ids, parent))
+
+        const padding = parent ? framePadding : 0
+        const minX = Math.min(...ids.map((id) => g.node(id).x - g.node(id).width / 2))
+        const minY = Math.min(...ids.map((id) => g.node(id).y - g.node(id).height / 2))
+        const maxX = Math.max(...ids.map((id) => g.node(id).x + g.node(id).width / 2))
+        const maxY = Math.max(...ids.map((id) => g.node(id).y + g.node(id).height / 2))
+        ids.forEach((id) => {
+            g.node(id).x += padding - minX
+            g.node(id).y += padding - minY
+        })
+        if (parent) {
+            g.node(parent).width = maxX - minX + 2 * padding
+            g.node(parent).height = maxY - minY + 2 * padding
+        }
+    }
+
+    const place = (parent: string | undefined, offsetX: number, offsetY: number) => {
+        getChildren(g, parent).forEach((id) => {
+            const node = g.node(id)
+            node.x += offsetX
+            node.y += offsetY
+            place(id, node.x - node.width / 2, node.y - node.height / 2)
+        })
+    }
+
+    if (g.nodeCount() === 0) return
+    layoutChildren()
+    place(undefined, 0, 0)
+}
+
+// Rows of about the same length, the resources before the frames of the modules
+export const arrangeGrid: Arrange = (g, ids) => {
+    const sortedIds = [...ids.filter((id) => getChildren(g, id).length === 0), ...ids.filter((id) => getChildren(g, id).length > 0)]
+    const columns = Math.ceil(Math.sqrt(sortedIds.length))
+    let y = 0
+    for (let row = 0; row * columns < sortedIds.length; row++) {
+        const rowIds = sortedIds.slice(row * columns, (row + 1) * columns)
+        const rowHeight = Math.max(...rowIds.map((id) => g.node(id).height))
+        let x = 0
+        rowIds.forEach((id) => {
+            const node = g.node(id)
+            node.x = x + node.width / 2
+            node.y = y + node.height / 2
+            x += node.width + nodeGap
+        })
+        y += rowHeight + nodeGap
+    }
+}
+
+export const getForceIterations = (nodeCount: number) => {
+    const pairs = nodeCount * (nodeCount - 1) / 2
+    return Math.max(minForceIterations, Math.min(maxForceIterations, Math.floor(forcePairsBudget / Math.max(pairs, 1))))
+}
+
+// Force-directed layout, starting from the grid so that it is deterministic: the children repel each other, and the edges
+// and the center attract them. The remaining overlaps are removed at the end.
+export const arrangeForce: Arrange = (g, ids, edges) => {
+    arrangeGrid(g, ids, edges)
+    if (ids.length < 2) return
+    const nodes = ids.map((id) => g.node(id))
+    const k = nodes.reduce((sum, node) => sum + Math.max(node.width, node.height), 0) / nodes.length + nodeGap
+    const index = new Map(ids.map((id, i) => [id, i]))
+    const forceIterations = getForceIterations(nodes.length)
+
+    for (let iteration = 0; iteration < forceIterations; iteration++) {
+        const temperature = k * (1 - iteration / forceIterations)
+        const dx = nodes.map(() => 0), dy = nodes.map(() => 0)
+        for (let i = 0; i < nodes.length; i++) {
+            for (let j = i + 1; j < nodes.length; j++) {
+                const x = nodes[i].x - nodes[j].x, y = nodes[i].y - nodes[j].y
+                const distance = Math.max(Math.sqrt(x * x + y * y), 1)
+                const force = k * k / distance
+                dx[i] += x / distance * force
+                dy[i] += y / distance * force
+                dx[j] -= x / distance * force
+                dy[j] -= y / distance * force
+            }
+        }
+        edges.forEach(([from, to]) => {
+            const i = index.get(from)!, j = index.get(to)!
+            const x = nodes[i].x - nodes[j].x, y = nodes[i].y - nodes[j].y
+            const distance = Math.max(Math.sqrt(x * x + y * y), 1)
+            const force = distance * distance / k
+            dx[i] -= x / distance * force
+            dy[i] -= y / distance * force
+            dx[j] += x / distance * force
+            dy[j] += y / distance * force
+        })
+        const centerX = nodes.reduce((sum, node) => sum + node.x, 0) / nodes.length
+        const centerY = nodes.reduce((sum, node) => sum + node.y, 0) / nodes.length
+        nodes.forEach((node, i) => {
+            const x = node.x - centerX, y = node.y - centerY
+            const distance = Math.sqrt(x * x + y * y)
+            dx[i] -= x * distance / k * gravity
+            dy[i] -= y * distance / k * gravity
+        })
+        nodes.forEach((node, i) => {
+            const length = Math.max(Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]), 1)
+            node.x += dx[i] / length * Math.min(length, temperature)
+            node.y += dy[i] / length * Math.min(length, temperature)
+        })
+    }
+
+    for (let iteration = 0; iteration < overlapIterations; iteration++) {
+        let overlapping = false
+        for (let i = 0; i < nodes.length; i++) {
+            for (let j = i + 1; j < nodes.length; j++) {
+                const overlapX = (nodes[i].width + nodes[j].width) / 2 + nodeGap / 2 - Math.abs(nodes[i].x - nodes[j].x)
+                const overlapY = (nodes[i].height + nodes[j].height) / 2 + nodeGap / 2 - Math.abs(nodes[i].y - nodes[j].y)
+                if (overlapX <= 0 || overlapY <= 0) continue
+                overlapping = true
+                // Along the axis with the smallest overlap
+                if (overlapX < overlapY) {
+                    const direction = nodes[i].x < nodes[j].x ? -1 : 1
+                    nodes[i].x += direction * overlapX / 2
+                    nodes[j].x -= direction * overlapX / 2
+                } else {
+                    const direction = nodes[i].y < nodes[j].y ? -1 : 1
+                    nodes[i].y += direction * overlapY / 2
+                    nodes[j].y -= direction * overlapY / 2
+                }
+            }
+        }
+        if (!overlapping) break
+    }
+}
@@ -1,38 +1,52 @@
+import { NodeGroup, TFVariableOutput } from "../parser/types";
+import { Editor, TLShape, TLShapeId } from "@tldraw/tldraw";
 import dagre from "dagre";
-import { NodeGroup } from "../TLDWrapper";
-import { Editor, TLShapeId } from "@tldraw/tldraw";
+import { LayoutType, computeDagreGraph, getSortedConnections, getSortedIds } from "./dagreLayout";
+import { SavedLayout, applySavedLayout } from "./savedLayout";
+import { getArrowShapeId, getNodeGroupId, getShapeId } from "../board/shapeUtils";
+import { getChildModulePath, getModuleInstancePath, removeModuleKeys, resolveModuleInstances } from "../utils/modules";
+import { ChangesBreakdown } from "../jsonPlanManager/jsonPlanManager";
 
-const defaultWidth = 120, defaultHeight = 120
+const variableWidth = 140, variableHeight = 36, variableGap = 10
+const emptyChanges: ChangesBreakdown = { create: 0, update: 0, delete: 0, moved: 0, unchanged: 0 }
 
-export const computeLayout = (nodeGroups: Map<string, NodeGroup>, computeTerraformPlan: boolean, editor: Editor | null, opacityFull: boolean) => {
-    const g = new dagre.graphlib.Graph({ compound: true });
-    g.setGraph({ rankdir: "TB", ranksep: 120 });
-    g.setDefaultEdgeLabel(function () { return {}; });
-    nodeGroups.forEach((nodeGroup, key) => {
-
-        g.setNode(key, { label: nodeGroup.name, width: defaultWidth, height: defaultHeight })
-        nodeGroup.connectionsOut.forEach((connection) => {
-            g.setEdge(key, connection)
-        })
-        if (nodeGroup.moduleName) {
-            nodeGroup.parentModules.forEach((parentModule, index) => {
-                if (!g.hasNode("module." + parentModule)) {
-                    g.setNode("module." + parentModule, { label: parentModule })
-                }
-                if (index !== 0) {
-                    g.setParent("module." + parentModule, "module." + nodeGroup.parentModules[index - 1])
-                }
-            })
-            if (!g.hasNode("module." + nodeGroup.moduleName)) {
-                g.setNode("module." + nodeGroup.moduleName, { label: nodeGroup.moduleName })
-                if (nodeGroup.parentModules.length > 0)
-                    g.setParent("module." + nodeGroup.moduleName, "module." + nodeGroup.parentModules[nodeGroup.parentModules.length - 1])
+const createArrowShape = (id: string, fromShape: TLShape, toShape: TLShape, computeTerraformPlan: boolean) => {
+    return {
+        id: id as TLShapeId,
+        type: "arrow",
+        opacity: computeTerraformPlan && fromShape.opacity * toShape.opacity < 1 ? 0.2 : 1,
+        props: {
+            size: "s",
+            start: {
+                type: "binding",
+                boundShapeId: fromShape.id,
+                normalizedAnchor: {
+                    x: 0.5,
+                    y: 0.5
+                },
+                isExact: false,
+            },
+            end: {
+                type: "binding",
+                boundShapeId: toShape.id,
+                normalizedAnchor: {
+                    x: 0.5,
+                    y: 0.5
+                },
+                isExact: false,
             }
-            g.setParent(key, "module." + nodeGroup.moduleName)
         }
-    })
-    dagre.layout(g);
-    const date = Date.now()
+    }
+}
+
+export const computeLayout = (nodeGroups: Map<string, NodeGroup>, computeTerraformPlan: boolean, editor: Editor | null, opacityFull: boolean,
+    layout: LayoutType, groupByTag: string | undefined, savedLayout: SavedLayout | undefined,
+    variableLayer?: { variables: TFVariableOutput[], outputs: TFVariableOutput[] }) => {
+    const g = computeDagreGraph(nodeGroups, layout, groupByTag)
+    // The positions arranged by hand are kept for the layout they were arranged in, with the frames of the modules
+    if (savedLayout && savedLayout.layout === layout && !groupByTag) {
+        applySavedLayout(g, savedLayout)
+    }
 
     editor?.createShapes(
         g.nodes().filter((id) => {
@@ -40,13 +54,13 @@ export const computeLayout = (nodeGroups: Map<string, NodeGroup>, computeTerrafo
         }).map((id) => {
             const node = g.node(id);
             return {
-                id: "shape:" + id + ":" + date as TLShapeId,
+                id: getShapeId(id) as TLShapeId,
                 type: "frame",
-                parentId: g.parent(id) ? "shape:" + g.parent(id) + ":" + date as TLShapeId : undefined,
+                parentId: g.parent(id) ? getShapeId(g.parent(id) as string) as TLShapeId : undefined,
                 x: node.x - node.width / 2,
                 y: node.y - node.height / 2,
                 props: {
-                    name: id,
+                    name: node.label,
                     w: node.width,
                     h: node.height,
                 }
@@ -58,7 +72,7 @@ export const computeLayout = (nodeGroups: Map<string, NodeGroup>, computeTerrafo
     }).forEach((id) => {
         const frameId = g.parent(id)
         if (frameId) {
-            nodeGroups.get(id)!.frameShapeId = "shape:" + frameId + ":" + date
+            nodeGroups.get(id)!.frameShapeId = getShapeId(frameId)
         }
     })
 
@@ -69,18 +83,27 @@ export const computeLayout = (nodeGroups: Map<string, NodeGroup>, computeTerrafo
             const node = g.node(id);
 
             return {
-                id: "shape:" + id + ":" + date as TLShapeId,
+                id: getShapeId(id) as TLShapeId,
                 type: "node",
                 x: node.x - node.width / 2,
                 y: node.y - node.height / 2,
                 props: {
+                    w: node.width,
+                    h: node.height,
                     name: node.label,
                     iconPath: nodeGroups.get(id)?.iconPath,
-                    resourceType: nodeGroups.get(id)?.type.split("_").slice(1).map(r => r.charAt(0).toUpperCase() + r.slice(1)).join(" "),
+                    resourceType: nodeGroups.get(id)?.moduleSummary ? "Module" :
+                        nodeGroups.get(id)?.type.split("_").slice(1).map(r => r.charAt(0).toUpperCase() + r.slice(1)).join(" "),
                     numberOfChanges: nodeGroups.get(id)?.numberOfChanges,
                     state: nodeGroups.get(id)?.state,
+                    comparison: nodeGroups.get(id)?.comparison || "",
+                    instances: nodeGroups.get(id)?.instances?.length || 0,
+                    dataSource: nodeGroups.get(id)?.isData || false,
+                    resources: nodeGroups.get(id)?.moduleSummary?.resources || 0,
+                    changes: nodeGroups.get(id)?.moduleSummary?.changes || emptyChanges,
                 },
-                opacity: !opacityFull && computeTerraformPlan && (["no-op", "read"].includes(nodeGroups.get(id)?.state || "no-op") &&
+                // Data sources are lookups, they are not faded like unchanged resources
+                opacity: !opacityFull && computeTerraformPlan && !nodeGroups.get(id)?.isData && (["no-op", "read"].includes(nodeGroups.get(id)?.state || "no-op") &&
                     !g.nodes().some((nodeId) => {
                         g.children(nodeId) && g.children(nodeId)!.length > 0 && g.children(nodeId)!.includes(id)
                     })) ? 0.2 : 1
@@ -90,45 +113,151 @@ export const computeLayout = (nodeGroups: Map<string, NodeGroup>, computeTerrafo
 
     const arrowShapes: any[] = []
 
-    nodeGroups.forEach((nodeGroup, id) => {
-        nodeGroup.connectionsOut.forEach((connection) => {
+    getSortedIds(nodeGroups).forEach((id) => {
+        getSortedConnections(nodeGroups.get(id)!).forEach((connection) => {
             const connectionNode = nodeGroups.get(connection)
             if (connectionNode) {
-                const fromShape = editor?.getShape("shape:" + id + ":" + date as TLShapeId)
-                const toShape = editor?.getShape("shape:" + connection + ":" + date as TLShapeId)
+                const fromShape = editor?.getShape(getShapeId(id) as TLShapeId)
+                const toShape = editor?.getShape(getShapeId(connection) as TLShapeId)
                 if (fromShape && toShape) {
-                    arrowShapes.push(
-                        {
-                            id: "shape:" + id + "-" + connection + ":" + date as TLShapeId,
-                            type: "arrow",
-                            opacity: computeTerraformPlan && fromShape.opacity * toShape.opacity < 1 ? 0.2 : 1,
-                            props: {
-                                size: "s",
-                                start: {
-                                    type: "binding",
-                                    boundShapeId: fromShape.id,
-                                    normalizedAnchor: {
-                                        x: 0.5,
-                                        y: 0.5
-                                    },
-                                    isExact: false,
-                                },
-                                end: {
-                                    type: "binding",
-                                    boundShapeId: toShape.id,
-                                    normalizedAnchor: {
-                                        x: 0.5,
-                                        y: 0.5
-                                    },
-                                    isExact: false,
-                                }
-                            }
-                        }
-                    )
-
+                    arrowShapes.push(createArrowShape(getArrowShapeId(id, connection), fromShape, toShape, computeTerraformPlan))
                 }
             }
         })
     })
     editor?.createShapes(arrowShapes)
-}
\ No newline at end of file
+
+    if (variableLayer) {
+        createVariableShapes(g, nodeGroups, variableLayer.variables, variableLayer.outputs, computeTerraformPlan, editor)
+    }
+}
+
+type VariableItem = {
+    kind: "var" | "local" | "output",
+    module: string,
+    name: string
+}
+
+// Draws the variables on the top border of their module frame, the outputs on the bottom border and the locals on
+// the left border, with arrows along the data flow. The borders of the root module are the bounds of the diagram.
+const createVariableShapes = (g: dagre.graphlib.Graph, nodeGroups: Map<string, NodeGroup>, variables: TFVariableOutput[], outputs: TFVariableOutput[],
+    computeTerraformPlan: boolean, editor: Editor | null) => {
+    const items = new Map<string, VariableItem>()
+    const edges: [string, string][] = []
+    const itemShapeId = (kind: string, module: string, name: string) => getShapeId(kind + "." + module + "." + name)
+    const addItem = (kind: VariableItem["kind"], module: string, name: string) => {
+        items.set(itemShapeId(kind, module, name), { kind, module, name })
+        return itemShapeId(kind, module, name)
+    }
+
+    // The items of each module instance are drawn on the frame of the instance
+    getSortedIds(nodeGroups).forEach((id) => {
+        const nodeGroup = nodeGroups.get(id)!
+        const module = getModuleInstancePath(nodeGroup)
+        const nodeShapeId = getShapeId(id)
+        nodeGroup.variableRefs?.forEach((name) => edges.push([addItem("var", module, name), nodeShapeId]))
+        nodeGroup.localRefs?.forEach((name) => edges.push([addItem("local", module, name), nodeShapeId]))
+        nodeGroup.affectedOutputs?.forEach((name) => edges.push([nodeShapeId, addItem("output", module, name)]))
+        nodeGroup.outputRefs?.forEach((outputRef) => {
+            edges.push([addItem("output", getChildModulePath(module, outputRef.split(".")[1]), outputRef.split(".")[2]), nodeShapeId])
+        })
+    })
+
+    // Variables and outputs of different modules are connected when both are drawn
+    // The references are to module paths, resolved in the module instances the items are drawn on
+    const varOut = [...variables, ...outputs]
+    const itemModules = Array.from(new Set(Array.from(items.values()).map((item) => item.module)))
+    Array.from(items.entries()).filter(([, item]) => item.kind !== "local").forEach(([shapeId, item]) => {
+        varOut.find((v) => v.name === item.name && v.module === removeModuleKeys(item.module) && (v.type === "variable") === (item.kind === "var"))
+            ?.expressionReferences.forEach((ref) => {
+                if (ref.type === "resource") return
+                resolveModuleInstances(ref.module, item.module, itemModules).forEach((refModule) => {
+                    const refShapeId = itemShapeId(ref.type === "variable" ? "var" : "output", refModule, ref.name)
+                    if (items.has(refShapeId)) {
+                        edges.push([refShapeId, shapeId])
+                    }
+                })
+            })
+    })
+
+    const ids = g.nodes()
+    const getBorders = (module: string) => {
+        if (module !== "root_module") {
+            if (!g.hasNode(module)) return undefined
+            const frame = g.node(module)
+            return { x: frame.x - frame.width / 2, y: frame.y - frame.height / 2, w: frame.width, h: frame.height }
+        }
+        const minX = Math.min(...ids.map((id) => g.node(id).x - g.node(id).width / 2)) - variableHeight
+        const minY = Math.min(...ids.map((id) => g.node(id).y - g.node(id).height / 2)) - variableHeight * 2
+        const maxX = Math.max(...ids.map((id) => g.node(id).x + g.node(id).width / 2)) + variableHeight
+        const maxY = Math.max(...ids.map((id) => g.node(id).y + g.node(id).height / 2)) + variableHeight
+        return { x: minX, y: minY, w: maxX - minX, h: maxY - minY }
+    }
+
+    const shapes: any[] = []
+    const modules = Array.from(new Set(Array.from(items.values()).map((item) => item.module)))
+    modules.forEach((module) => {
+        const borders = getBorders(module)
+        if (!borders) return
+        const moduleItems = Array.from(items.entries()).filter(([, item]) => item.module === module)
+        const position = (kind: VariableItem["kind"], index: number) => {
+            switch (kind) {
+                // From the right, since the name of the frame is on the top left corner
+                case "var":
+                    return { x: borders.x + borders.w - (index + 1) * (variableWidth + variableGap), y: borders.y - variableHeight / 2 }
+                case "output":
+                    return { x: borders.x + variableGap + index * (variableWidth + variableGap), y: borders.y + borders.h - variableHeight / 2 }
+                case "local":
+                    return { x: borders.x - variableWidth / 2, y: borders.y + variableGap + index * (variableHeight + variableGap) }
+            }
+        }
+        const kinds: VariableItem["kind"][] = ["var", "local", "output"]
+        kinds.forEach((kind) => {
+            moduleItems.filter(([, item]) => item.kind === kind).forEach(([shapeId, item], index) => {
+                shapes.push({
+                    id: shapeId as TLShapeId,
+                    type: "geo",
+                    ...position(kind, index),
+                    props: {
+                        geo: "rectangle",
+                        w: variableWidth,
+                        h: variableHeight,
+                        text: kind + "." + item.name,
+                        size: "s",
+                        font: "sans",
+                        fill: "solid",
+                        color: kind === "var" ? "blue" : kind === "local" ? "violet" : "green",
+                    }
+                })
+            })
+        })
+    })
+    editor?.createShapes(shapes)
+
+    const arrowShapes: any[] = []
+    edges.forEach(([fromId, toId]) => {
+        const fromShape = editor?.getShape(fromId as TLShapeId)
+        const toShape = editor?.getShape(toId as TLShapeId)
+        const arrowId = getArrowShapeId(getNodeGroupId(fromId), getNodeGroupId(toId))
+        if (fromShape && toShape && !arrowShapes.some((arrow) => arrow.id === arrowId)) {
+            arrowShapes.push(createArrowShape(arrowId, fromShape, toShape, computeTerraformPlan))
+        }
+    })
+    editor?.createShapes(arrowShapes)
+}
+
+// Reads back the positions of the nodes and frames on the page, after they have been arranged by hand
+export const getEditorLayout = (editor: Editor, layout: LayoutType): SavedLayout => {
+    const savedLayout: SavedLayout = { layout, nodes: {}, frames: {} }
+    editor.getCurrentPageShapes().filter((shape) => shape.type === "node" || shape.type === "frame").forEach((shape) => {
+        const bounds = editor.getShapePageBounds(shape)
+        if (!bounds) return
+        const id = getNodeGroupId(shape.id)
+        if (shape.type === "node") {
+            savedLayout.nodes[id] = { x: bounds.x + bounds.w / 2, y: bounds.y + bounds.h / 2 }
+        } else {
+            savedLayout.frames[id] = { x: bounds.x + bounds.w / 2, y: bounds.y + bounds.h / 2, width: bounds.w, height: bounds.h }
+        }
+    })
+    return savedLayout
+}
@@ -0,0 +1,78 @@
+import dagre from "dagre";
+import { NodeGroup } from "../parser/types";
+import { getModuleInstancePath, getModuleLabel, getModuleSegments } from "../utils/modules";
+import { arrangeForce, arrangeGrid, layoutCompoundGraph } from "./compoundLayout";
+import { getGroupingTag, getTagFrameId, getTagFrameLabel } from "../utils/tags";
+
+export const defaultWidth = 120, defaultHeight = 120
+export const dataSourceHeight = 56
+
+// Layered top to bottom or left to right, a compact grid per module, or force-directed
+export type LayoutType = "tb" | "lr" | "grid" | "force"
+export const layoutTypes: LayoutType[] = ["tb", "lr", "grid", "force"]
+
+// Lays out the node groups, with a compound node for each module, or for each value of the tag the node groups are grouped by
+export const computeDagreGraph = (nodeGroups: Map<string, NodeGroup>, layout: LayoutType = "tb", groupByTag?: string) => {
+    const g = new dagre.graphlib.Graph({ compound: true });
+    g.setGraph({ rankdir: layout === "lr" ? "LR" : "TB", ranksep: 120 });
+    g.setDefaultEdgeLabel(function () { return {}; });
+    // The nodes and edges are inserted in the order of their ids, so that the same plan is always laid out the same way
+    const ids = getSortedIds(nodeGroups)
+    ids.forEach((key) => {
+        const nodeGroup = nodeGroups.get(key)!
+        g.setNode(key, { label: nodeGroup.name + (nodeGroup.instanceKey || ""), width: defaultWidth, height: nodeGroup.isData ? dataSourceHeight : defaultHeight })
+        if (groupByTag) {
+            // The node groups without the tag are not in a frame
+            const tag = getGroupingTag(nodeGroup, groupByTag)
+            if (tag) {
+                if (!g.hasNode(getTagFrameId(tag))) {
+                    g.setNode(getTagFrameId(tag), { label: getTagFrameLabel(getTagFrameId(tag)) })
+                }
+                g.setParent(key, getTagFrameId(tag))
+            }
+        } else if (nodeGroup.moduleName) {
+            // Frames are keyed on the full module path, since modules of different parents can have the same name.
+            // Each instance of a module called with count or for_each has its own frame.
+            const modules = getModuleSegments(getModuleInstancePath(nodeGroup))
+            modules.forEach((module, index) => {
+                const modulePath = modules.slice(0, index + 1).join(".")
+                if (!g.hasNode(modulePath)) {
+                    g.setNode(modulePath, { label: getModuleLabel(modulePath) })
+                    if (index !== 0) {
+                        g.setParent(modulePath, modules.slice(0, index).join("."))
+                    }
+                }
+            })
+            g.setParent(key, getModuleInstancePath(nodeGroup))
+        }
+    })
+    ids.forEach((key) => {
+        getSortedConnections(nodeGroups.get(key)!).forEach((connection) => {
+            g.setEdge(key, connection)
+        })
+    })
+    switch (layout) {
+        case "grid":
+            layoutCompoundGraph(g, arrangeGrid)
+            break
+        case "force":
+            layoutCompoundGraph(g, arrangeForce)
+            break
+        default:
+            dagre.layout(g);
+    }
+    return g
+}
+
+export const getSortedIds = (nodeGroups: Map<string, NodeGroup>) => {
+    return Array.from(nodeGroups.keys()).sort()
+}
+
+export const getSortedConnections = (nodeGroup: NodeGroup) => {
+    return [...nodeGroup.connectionsOut].sort()
+}
+
+export const isFrame = (g: dagre.graphlib.Graph, id: string) => {
+    const children = g.children(id) as unknown as string[] | undefined
+    return children !== undefined && children.length > 0
+}
@@ -0,0 +1,67 @@
+import dagre from "dagre"
+import { SavedLayout, applySavedLayout, mergeSavedLayouts } from "./savedLayout"
+
+// A resource at the top level, and a module frame with two resources, already laid out
+const buildGraph = () => {
+    const g = new dagre.graphlib.Graph({ compound: true })
+    g.setNode("aws_s3_bucket.a", { x: 100, y: 100, width: 100, height: 80 })
+    g.setNode("module.svc", { x: 400, y: 100, width: 300, height: 140 })
+    g.setNode("module.svc.aws_sqs_queue.q", { x: 330, y: 100, width: 100, height: 80 })
+    g.setNode("module.svc.aws_sqs_queue.r", { x: 470, y: 100, width: 100, height: 80 })
+    g.setParent("module.svc.aws_sqs_queue.q", "module.svc")
+    g.setParent("module.svc.aws_sqs_queue.r", "module.svc")
+    return g
+}
+
+const savedLayout = (nodes: SavedLayout["nodes"], frames: SavedLayout["frames"] = {}): SavedLayout => ({ layout: "tb", nodes, frames })
+
+const position = (g: dagre.graphlib.Graph, id: string) => ({ x: g.node(id).x, y: g.node(id).y })
+
+describe("applySavedLayout", () => {
+    it("moves the nodes to their saved positions, and ignores the ids that are not in the graph", () => {
+        const g = buildGraph()
+        applySavedLayout(g, savedLayout({
+            "aws_s3_bucket.a": { x: 0, y: 500 },
+            "aws_s3_bucket.removed": { x: 900, y: 900 }
+        }, { "module.removed": { x: 900, y: 900, width: 10, height: 10 } }))
+        expect(position(g, "aws_s3_bucket.a")).toEqual({ x: 0, y: 500 })
+        expect(g.hasNode("aws_s3_bucket.removed")).toBe(false)
+        expect(g.hasNode("module.removed")).toBe(false)
+    })
+
+    it("moves the new nodes along with the closest saved node of their frame", () => {
+        const g = buildGraph()
+        applySavedLayout(g, savedLayout({
+            "aws_s3_bucket.a": { x: 0, y: 500 },
+            "module.svc.aws_sqs_queue.q": { x: 330, y: 300 }
+        }))
+        expect(position(g, "module.svc.aws_sqs_queue.r")).toEqual({ x: 470, y: 300 })
+    })
+
+    it("resizes the frames around their children, and keeps the saved size of the frames", () => {
+        const g = buildGraph()
+        applySavedLayout(g, savedLayout({ "module.svc.aws_sqs_queue.q": { x: 330, y: 300 } }))
+        expect(g.node("module.svc")).toMatchObject({ x: 400, y: 300, width: 300, height: 140 })
+
+        const resized = buildGraph()
+        applySavedLayout(resized, savedLayout({}, { "module.svc": { x: 400, y: 100, width: 500, height: 140 } }))
+        expect(resized.node("module.svc")).toMatchObject({ x: 400, y: 100, width: 500, height: 140 })
+    })
+
+    it("keeps the layout when nothing of the graph was saved", () => {
+        const g = buildGraph()
+        applySavedLayout(g, savedLayout({ "aws_s3_bucket.removed": { x: 900, y: 900 } }))
+        expect(position(g, "aws_s3_bucket.a")).toEqual({ x: 100, y: 100 })
+        expect(g.node("module.svc")).toMatchObject({ x: 400, y: 100, width: 300, height: 140 })
+    })
+})
+
+describe("mergeSavedLayouts", () => {
+    it("keeps the positions of the shapes that are not on the page, for the same layout only", () => {
+        const previous = savedLayout({ "aws_s3_bucket.a": { x: 0, y: 0 }, "aws_s3_bucket.hidden": { x: 10, y: 10 } })
+        const current = savedLayout({ "aws_s3_bucket.a": { x: 50, y: 50 } })
+        expect(mergeSavedLayouts(previous, current).nodes).toEqual({ "aws_s3_bucket.a": { x: 50, y: 50 }, "aws_s3_bucket.hidden": { x: 10, y: 10 } })
+        expect(mergeSavedLayouts({ ...previous, layout: "lr" }, current)).toBe(current)
+        expect(mergeSavedLayouts(undefined, current)).toBe(current)
+    })
+})
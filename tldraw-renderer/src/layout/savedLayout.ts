@@ -0,0 +1,79 @@
+import dagre from "dagre";
+import { LayoutType, isFrame } from "./dagreLayout";
+
+const framePadding = 30
+
+// Positions of the nodes and frames arranged by hand, keyed by the address of the resources and by the path of the modules.
+// Like in the dagre graph, the positions are the centers of the shapes.
+export type SavedLayout = {
+    layout: LayoutType,
+    nodes: { [id: string]: { x: number, y: number } },
+    frames: { [id: string]: { x: number, y: number, width: number, height: number } }
+}
+
+// The positions of the shapes that are not on the page, e.g. filtered out or in a collapsed module, are kept
+export const mergeSavedLayouts = (previous: SavedLayout | undefined, current: SavedLayout): SavedLayout => {
+    if (!previous || previous.layout !== current.layout) return current
+    return {
+        layout: current.layout,
+        nodes: { ...previous.nodes, ...current.nodes },
+        frames: { ...previous.frames, ...current.frames }
+    }
+}
+
+// Moves the nodes to their saved positions. The new nodes are moved along with the closest saved node of the same frame,
+// so that they stay next to the nodes they were placed with, and the frames are resized around their children.
+export const applySavedLayout = (g: dagre.graphlib.Graph, savedLayout: SavedLayout) => {
+    const leaves = g.nodes().filter((id) => !isFrame(g, id))
+    const savedIds = leaves.filter((id) => savedLayout.nodes[id])
+    if (savedIds.length === 0 && !g.nodes().some((id) => savedLayout.frames[id])) return
+
+    const moves = new Map<string, { dx: number, dy: number }>()
+    savedIds.forEach((id) => {
+        moves.set(id, { dx: savedLayout.nodes[id].x - g.node(id).x, dy: savedLayout.nodes[id].y - g.node(id).y })
+    })
+    leaves.filter((id) => !savedLayout.nodes[id]).forEach((id) => {
+        const siblings = savedIds.filter((savedId) => g.parent(savedId) === g.parent(id))
+        const candidates = siblings.length > 0 ? siblings : savedIds
+        const distance = (otherId: string) => Math.hypot(g.node(otherId).x - g.node(id).x, g.node(otherId).y - g.node(id).y)
+        const closest = candidates.reduce<string | undefined>((best, otherId) => {
+            return best === undefined || distance(otherId) < distance(best) ? otherId : best
+        }, undefined)
+        if (closest) moves.set(id, moves.get(closest)!)
+    })
+    moves.forEach(({ dx, dy }, id) => {
+        g.node(id).x += dx
+        g.node(id).y += dy
+    })
+
+    // From the innermost frames, so that the parent frames contain the resized ones
+    const depth = (id: string): number => g.parent(id) ? depth(g.parent(id) as string) + 1 : 0
+    g.nodes().filter((id) => isFrame(g, id)).sort((a, b) => depth(b) - depth(a)).forEach((id) => {
+        const children = g.children(id) as unknown as string[]
+        const boxes = children.map((childId) => {
+            const child = g.node(childId)
+            return {
+                minX: child.x - child.width / 2 - framePadding,
+                minY: child.y - child.height / 2 - framePadding,
+                maxX: child.x + child.width / 2 + framePadding,
+                maxY: child.y + child.height / 2 + framePadding
+            }
+        })
+        const savedFrame = savedLayout.frames[id]
+        if (savedFrame) {
+            boxes.push({
+                minX: savedFrame.x - savedFrame.width / 2,
+                minY: savedFrame.y - savedFrame.height / 2,
+                maxX: savedFrame.x + savedFrame.width / 2,
+                maxY: savedFrame.y + savedFrame.height / 2
+            })
+        }
+        const minX = Math.min(...boxes.map((box) => box.minX)), minY = Math.min(...boxes.map((box) => box.minY))
+        const maxX = Math.max(...boxes.map((box) => box.maxX)), maxY = Math.max(...boxes.map((box) => box.maxY))
+        const frame = g.node(id)
+        frame.x = (minX + maxX) / 2
+        frame.y = (minY + maxY) / 2
+        frame.width = maxX - minX
+        frame.height = maxY - minY
+    })
+}
@@ -0,0 +1,147 @@
+import { fromDot } from "ts-graphviz"
+import { ParseOptions, buildNodeGroups, collapseModules, computeConnections, getNodeGroupActions } from "./parseGraph"
+
+const graph = `digraph {
+    compound = "true"
+    newrank = "true"
+    subgraph "root" {
+        "[root] aws_iam_role.r (expand)" [label = "aws_iam_role.r", shape = "box"]
+        "[root] module.svc.aws_s3_bucket.b (expand)" [label = "module.svc.aws_s3_bucket.b", shape = "box"]
+        "[root] module.svc.aws_s3_bucket_policy.p (expand)" [label = "module.svc.aws_s3_bucket_policy.p", shape = "box"]
+        "[root] module.svc.aws_s3_bucket.b (expand)" -> "[root] aws_iam_role.r (expand)"
+        "[root] module.svc.aws_s3_bucket_policy.p (expand)" -> "[root] module.svc.aws_s3_bucket.b (expand)"
+    }
+}`
+
+// The resources of the fixture are all AWS resources, e.g. module.svc["api"].aws_s3_bucket.b
+const resourceChange = (address: string, actions: string[], fields: any = {}) => ({
+    address,
+    module_address: address.startsWith("module.") ? address.slice(0, address.indexOf(".aws_")) : undefined,
+    type: address.split(".").slice(-2)[0],
+    name: address.split(".").slice(-1)[0],
+    change: { actions, before: {}, after: {} },
+    ...fields
+})
+
+const options: ParseOptions = {
+    computeTerraformPlan: true,
+    detailed: false,
+    showUnchanged: false,
+    debugLog: () => { }
+}
+
+const build = (resourceChanges: any[], parseOptions: Partial<ParseOptions> = {}) => {
+    const model = fromDot(graph)
+    const nodeGroups = buildNodeGroups(model, { resource_changes: resourceChanges }, { ...options, ...parseOptions })
+    computeConnections(model, nodeGroups)
+    return nodeGroups
+}
+
+describe("buildNodeGroups", () => {
+    it("aggregates the secondary resources into their main resource", () => {
+        const nodeGroups = build([
+            resourceChange("aws_iam_role.r", ["no-op"]),
+            resourceChange("module.svc.aws_s3_bucket.b", ["no-op"]),
+            resourceChange("module.svc.aws_s3_bucket_policy.p", ["update"])
+        ], { showUnchanged: true })
+        const bucket = nodeGroups.get("module.svc.aws_s3_bucket.b")!
+        expect(bucket.nodes.map((node) => node.type)).toEqual(["aws_s3_bucket", "aws_s3_bucket_policy"])
+        expect(bucket.state).toBe("update")
+        expect(bucket.numberOfChanges).toBe(1)
+        expect(bucket.connectionsIn).toEqual(["aws_iam_role.r"])
+    })
+
+    it("drops the unchanged resources, unless they are shown", () => {
+        const resourceChanges = [
+            resourceChange("aws_iam_role.r", ["no-op"]),
+            resourceChange("module.svc.aws_s3_bucket.b", ["create"])
+        ]
+        expect(Array.from(build(resourceChanges).keys())).toEqual(["module.svc.aws_s3_bucket.b"])
+        expect(Array.from(build(resourceChanges, { showUnchanged: true }).keys()).sort())
+            .toEqual(["aws_iam_role.r", "module.svc.aws_s3_bucket.b"])
+    })
+
+    it("splits the resources of a module called with for_each into one node group per instance", () => {
+        const nodeGroups = build([
+            resourceChange("aws_iam_role.r", ["update"]),
+            resourceChange("module.svc[\"api\"].aws_s3_bucket.b", ["create"]),
+            resourceChange("module.svc[\"web.x\"].aws_s3_bucket.b", ["delete"]),
+            resourceChange("module.svc[\"web.x\"].aws_s3_bucket_policy.p", ["update"])
+        ])
+        const api = nodeGroups.get("module.svc[\"api\"].aws_s3_bucket.b")!
+        const web = nodeGroups.get("module.svc[\"web.x\"].aws_s3_bucket.b")!
+        expect(api.moduleInstance).toBe("module.svc[\"api\"]")
+        expect(api.state).toBe("create")
+        expect(api.nodes.map((node) => node.type)).toEqual(["aws_s3_bucket"])
+        expect(web.moduleInstance).toBe("module.svc[\"web.x\"]")
+        expect(web.state).toBe("delete")
+        expect(web.numberOfChanges).toBe(2)
+        expect(web.nodes.map((node) => (node.resourceChanges || []).map((change) => change.address)).flat())
+            .toEqual(["module.svc[\"web.x\"].aws_s3_bucket.b", "module.svc[\"web.x\"].aws_s3_bucket_policy.p"])
+        // Each instance keeps the connections of the module
+        expect(api.connectionsIn).toEqual(["aws_iam_role.r"])
+        expect(web.connectionsIn).toEqual(["aws_iam_role.r"])
+    })
+})
+
+describe("moved and replaced resources", () => {
+    it("keeps the moved resources, which have no other changes", () => {
+        const nodeGroups = build([
+            resourceChange("aws_iam_role.r", ["no-op"], { previous_address: "aws_iam_role.old" })
+        ])
+        const role = nodeGroups.get("aws_iam_role.r")!
+        expect(role.state).toBe("moved")
+        expect(role.numberOfChanges).toBe(1)
+        expect(getNodeGroupActions(role)).toEqual(["no-op"])
+    })
+
+    it("detects the resources moved into a module", () => {
+        const nodeGroups = build([
+            resourceChange("module.svc.aws_s3_bucket.b", ["no-op"], { previous_address: "aws_s3_bucket.b" })
+        ])
+        expect(nodeGroups.get("module.svc.aws_s3_bucket.b")!.state).toBe("moved")
+    })
+
+    it("reports the replacements of the secondary resources as actions of the node group", () => {
+        const nodeGroups = build([
+            resourceChange("module.svc.aws_s3_bucket.b", ["update"]),
+            resourceChange("module.svc.aws_s3_bucket_policy.p", ["delete", "create"])
+        ])
+        expect(getNodeGroupActions(nodeGroups.get("module.svc.aws_s3_bucket.b")!)).toEqual(["update", "replace"])
+    })
+})
+
+describe("collapseModules", () => {
+    const buildModuleInstances = () => build([
+        resourceChange("aws_iam_role.r", ["update"]),
+        resourceChange("module.svc[\"api\"].aws_s3_bucket.b", ["create"]),
+        resourceChange("module.svc[\"api\"].aws_s3_bucket_policy.p", ["create"]),
+        resourceChange("module.svc[\"web\"].aws_s3_bucket.b", ["delete"])
+    ])
+
+    it("replaces the resources of a collapsed module instance with a summary node group", () => {
+        const nodeGroups = buildModuleInstances()
+        collapseModules(nodeGroups, ["module.svc[\"api\"]"])
+        expect(Array.from(nodeGroups.keys()).sort()).toEqual(["aws_iam_role.r", "module.svc[\"api\"]", "module.svc[\"web\"].aws_s3_bucket.b"])
+        const summary = nodeGroups.get("module.svc[\"api\"]")!
+        expect(summary.type).toBe("module")
+        expect(summary.name).toBe("svc[\"api\"]")
+        expect(summary.state).toBe("create")
+        expect(summary.moduleSummary!.resources).toBe(2)
+        expect(summary.moduleSummary!.changes).toEqual({ create: 2, update: 0, delete: 0, moved: 0, unchanged: 0 })
+    })
+
+    it("reroutes the connections of the resources of the module to its summary", () => {
+        const nodeGroups = buildModuleInstances()
+        collapseModules(nodeGroups, ["module.svc[\"api\"]"])
+        expect(nodeGroups.get("module.svc[\"api\"]")!.connectionsIn).toEqual(["aws_iam_role.r"])
+        expect(nodeGroups.get("aws_iam_role.r")!.connectionsOut.sort()).toEqual(["module.svc[\"api\"]", "module.svc[\"web\"].aws_s3_bucket.b"])
+    })
+
+    it("ignores the modules without resources", () => {
+        const nodeGroups = buildModuleInstances()
+        collapseModules(nodeGroups, ["module.db"])
+        expect(nodeGroups.has("module.db")).toBe(false)
+        expect(nodeGroups.size).toBe(3)
+    })
+})
@@ -0,0 +1,531 @@
+import { NodeModel, RootGraphModel, SubgraphModel } from "ts-graphviz"
+import { CatalogRow, findDataSourceRow, getBuiltInCatalog, isInCatalog, mergeCatalogs } from "../catalog/catalog"
+import { getResourceNameAndType, isResourceType } from "../utils/resources"
+import { getGenericIconPath, getProviderName } from "../utils/genericIcon"
+import { PlanAction, getChangeState, getChangesBreakdown, getPlanAction, isMovedChange } from "../jsonPlanManager/jsonPlanManager"
+import { getModuleInstancePath, getModulePath, getModuleSegments, isInModule, removeModuleKeys } from "../utils/modules"
+import { NodeGroup, ResourceState } from "./types"
+
+export type ParseOptions = {
+    computeTerraformPlan: boolean,
+    detailed: boolean,
+    showUnchanged: boolean,
+    // Rows of custom catalogs, already validated
+    catalog?: CatalogRow[],
+    // Renders the resources that are not in the catalog with a generic icon
+    showUnknown?: boolean,
+    // Renders each data source as its own node, instead of aggregating them into the main resources
+    showDataSources?: boolean,
+    debugLog: (message: string) => void
+}
+
+export const checkHclBlockType = (blockId: string) => {
+    let parentModules: string[] = []
+    let moduleName = ""
+
+    let splitBlockId = blockId.split(".")
+    for (let i = 0; i < splitBlockId.length; i++) {
+        if (splitBlockId[i] === "module") {
+            if (moduleName !== "") {
+                parentModules.push(moduleName)
+            }
+            moduleName = splitBlockId[i + 1]
+            blockId = splitBlockId.slice(i + 2).join(".")
+        }
+    }
+    const isModule = !blockId && moduleName
+
+
+    const isData = blockId.startsWith("data.")
+    const isVariable = blockId.startsWith("var.")
+    const isLocal = blockId.startsWith("local.")
+    const isOutput = blockId.startsWith("output.")
+    const isProvider = blockId.startsWith("provider[")
+
+    const isResource = isResourceType(blockId)
+
+    if (!isData && !isVariable && !isLocal && !isOutput && !isProvider && !isResource && !isModule) {
+        console.warn("Unknown block type", blockId)
+    }
+
+    splitBlockId = blockId.split(".")
+    const isResourceWithName = isResource && splitBlockId.length > 1
+    if (!isResource && !isModule) {
+        blockId = splitBlockId.slice(1).join(".")
+    }
+    return { processedBlockId: blockId, isData, isVariable, isResource, isLocal, isOutput, isProvider, isModule, isResourceWithName, moduleName, parentModules }
+}
+
+// Matches the changes of a resource and of its instances, also under the address they were moved from.
+// The graph has no keys for the instances of the modules, so the changes of all the module instances match.
+const matchesAddress = (resourceChange: any, address: string) => {
+    return [resourceChange.address, resourceChange.previous_address].some((changeAddress) => {
+        return changeAddress && (removeModuleKeys(changeAddress) === address || removeModuleKeys(changeAddress).startsWith(address + "["))
+    })
+}
+
+// Determine a general state, given all the actions
+const getGeneralState = (resourceChanges: any[]) => {
+    let numberOfChanges = 0
+    let generalState = "no-op"
+    resourceChanges.forEach((resourceChange) => {
+        const newState = getChangeState(resourceChange)
+        numberOfChanges += ["no-op", "read"].includes(newState) ? 0 : 1
+        generalState = newState !== generalState ?
+            (["no-op", "read"].includes(newState) && ["no-op", "read"].includes(generalState)) ? "read" :
+                ["no-op", "read"].includes(generalState) ? newState : "update" : newState
+    })
+    return { state: (resourceChanges.length > 0 ? generalState : "no-op") as ResourceState, numberOfChanges }
+}
+
+// The key of an instance created with count or for_each, e.g. ["a"] for aws_subnet.this["a"], or "" for other changes
+const getInstanceKey = (resourceChange: any, address: string) => {
+    const instanceAddress = [resourceChange.address, resourceChange.previous_address].find((changeAddress) => {
+        return changeAddress && removeModuleKeys(changeAddress).startsWith(address + "[")
+    })
+    return instanceAddress ? removeModuleKeys(instanceAddress).slice(address.length) : ""
+}
+
+const getInstanceChanges = (node: NodeGroup["nodes"][number], key: string) => {
+    return (node.resourceChanges || []).filter((resourceChange) => getInstanceKey(resourceChange, node.nodeModel.id.split(" ")[1]) === key)
+}
+
+// Splits the changes of a main resource with count or for_each into its instances. The secondary
+// resources belong to the instance with the same key, e.g. the route table association of each subnet.
+const setInstances = (nodeGroup: NodeGroup, showUnchanged: boolean) => {
+    const mainAddress = nodeGroup.mainNode.id.split(" ")[1]
+    const mainChanges = nodeGroup.nodes.filter((node) => node.nodeModel.id === nodeGroup.mainNode.id)
+        .map((node) => node.resourceChanges || []).flat()
+    const keys = Array.from(new Set(mainChanges.map((resourceChange) => getInstanceKey(resourceChange, mainAddress))))
+        .filter((key) => key !== "")
+    const instances = keys.map((key) => {
+        return {
+            key,
+            address: nodeGroup.id + key,
+            ...getGeneralState(nodeGroup.nodes.map((node) => getInstanceChanges(node, key)).flat())
+        }
+    }).filter((instance) => showUnchanged || instance.numberOfChanges > 0)
+    if (instances.length > 0) {
+        nodeGroup.instances = instances
+    }
+}
+
+// Splits the node groups of the modules called with count or for_each into one node group per module instance,
+// e.g. module.svc["api"].aws_lambda_function.x and module.svc["web"].aws_lambda_function.x, each with its own changes
+const splitModuleInstances = (nodeGroups: Map<string, NodeGroup>, debugLog: (message: string) => void) => {
+    Array.from(nodeGroups.entries()).forEach(([key, nodeGroup]) => {
+        const moduleInstances = Array.from(new Set(nodeGroup.nodes.map((node) => node.resourceChanges || []).flat()
+            .map((resourceChange) => resourceChange.module_address as string | undefined)))
+            .filter((moduleAddress): moduleAddress is string => !!moduleAddress && moduleAddress !== removeModuleKeys(moduleAddress))
+        if (moduleInstances.length === 0) return
+
+        nodeGroups.delete(key)
+        moduleInstances.forEach((moduleInstance) => {
+            const id = moduleInstance + nodeGroup.id.slice(getModulePath(nodeGroup).length)
+            debugLog("Adding module instance: " + id)
+            const nodes = nodeGroup.nodes.map((node) => {
+                return { ...node, resourceChanges: (node.resourceChanges || []).filter((resourceChange) => resourceChange.module_address === moduleInstance) }
+            })
+            const { state } = getGeneralState(nodes[0].resourceChanges)
+            const numberOfChanges = nodes.map((node) => getGeneralState(node.resourceChanges).numberOfChanges).reduce((a, b) => a + b, 0)
+            nodeGroups.set(id, {
+                ...nodeGroup,
+                nodes,
+                id,
+                state: state === "no-op" && numberOfChanges > 0 ? "update" : state,
+                numberOfChanges: nodeGroup.isData ? 0 : numberOfChanges,
+                connectionsIn: [],
+                connectionsOut: [],
+                moduleInstance
+            })
+        })
+    })
+}
+
+const addNodeToGroup = (node: NodeModel, nodeGroups: Map<string, NodeGroup>, mainBlock: boolean, catalog: CatalogRow[], planJsonObj: any, options: ParseOptions) => {
+    let centralPart = node.id.split(" ")[1]
+    if (centralPart) {
+        const { processedBlockId, isResourceWithName, moduleName, parentModules } = checkHclBlockType(centralPart)
+
+        if (isResourceWithName) {
+            const { resourceType, resourceName } = getResourceNameAndType(processedBlockId)
+            if (resourceType && resourceName) {
+                let resourceChanges: any[] = []
+                if (options.computeTerraformPlan) {
+
+                    resourceChanges = planJsonObj.resource_changes.filter((resource: any) => matchesAddress(resource, node.id.split(" ")[1]))
+                }
+
+                const { state, numberOfChanges } = getGeneralState(resourceChanges)
+
+                const setNodeGroup = (category: string, serviceName: string, iconPath: string) => {
+                    nodeGroups.set(node.id.split(" ")[1], {
+                        nodes: [{
+                            nodeModel: node,
+                            name: resourceName,
+                            type: resourceType,
+                            resourceChanges: resourceChanges
+                        }],
+                        id: node.id.split(" ")[1],
+                        mainNode: node,
+                        category: category,
+                        name: resourceName,
+                        state: state,
+                        type: resourceType,
+                        parentModules: parentModules,
+                        numberOfChanges: numberOfChanges,
+                        serviceName: serviceName,
+                        iconPath: iconPath,
+                        connectionsIn: [],
+                        connectionsOut: [],
+                        moduleName: moduleName
+                    })
+                }
+
+                catalog.forEach((row) => {
+                    if (row[mainBlock ? "Main Diagram Blocks" : "Missing Resources"].split(",").some((s: string) => s === resourceType)) {
+                        options.debugLog("Adding main resource: " + node.id.split(" ")[1])
+                        // The rows without an icon are drawn with the generic icon of the provider
+                        setNodeGroup(row["Simplified Category"], row["Service Name"], row["Icon Path"].trim() || getGenericIconPath(resourceType))
+                    }
+                })
+
+                if (options.showUnknown && !isInCatalog(catalog, resourceType)) {
+                    options.debugLog("Adding unknown resource: " + node.id.split(" ")[1])
+                    setNodeGroup("Other", getProviderName(resourceType), getGenericIconPath(resourceType))
+                }
+            }
+        }
+    }
+
+}
+
+const addDataSourceToGroup = (node: NodeModel, nodeGroups: Map<string, NodeGroup>, catalog: CatalogRow[], planJsonObj: any, options: ParseOptions) => {
+    const address = node.id.split(" ")[1]
+    if (!address) return
+    const { processedBlockId, isData, moduleName, parentModules } = checkHclBlockType(address)
+    if (!isData) return
+    const { resourceType, resourceName } = getResourceNameAndType(processedBlockId)
+    if (!resourceType || !resourceName) return
+
+    // Data sources only have changes when they are read during the apply
+    const resourceChanges: any[] = options.computeTerraformPlan ?
+        planJsonObj.resource_changes.filter((resource: any) => matchesAddress(resource, address)) : []
+    const row = findDataSourceRow(catalog, resourceType)
+    if (!row && !options.showUnknown) return
+
+    options.debugLog("Adding data source: " + address)
+    nodeGroups.set(address, {
+        nodes: [{
+            nodeModel: node,
+            name: resourceName,
+            type: resourceType,
+            resourceChanges: resourceChanges
+        }],
+        id: address,
+        mainNode: node,
+        category: row ? row["Simplified Category"] : "Other",
+        name: resourceName,
+        state: getGeneralState(resourceChanges).state,
+        type: resourceType,
+        parentModules: parentModules,
+        numberOfChanges: 0,
+        serviceName: row ? row["Service Name"] : getProviderName(resourceType),
+        iconPath: row && row["Icon Path"].trim() ? row["Icon Path"].trim() : getGenericIconPath(resourceType),
+        connectionsIn: [],
+        connectionsOut: [],
+        moduleName: moduleName,
+        isData: true
+    })
+}
+
+const getConnectedNodes = (node: NodeModel, nodeGroup: NodeGroup, nodeGroups: Map<string, NodeGroup>, subgraph: SubgraphModel, start: boolean, catalog: CatalogRow[], planJsonObj: any, options: ParseOptions) => {
+    subgraph.edges.filter((e) => {
+        return (e.targets[start ? 0 : 1] as any).id === node.id
+    }).forEach((edge, index) => {
+
+        const edgeToId = (edge.targets[start ? 1 : 0] as any).id
+        let centralPart = edgeToId.split(" ")[1]
+        if (centralPart) {
+            const { isResourceWithName, processedBlockId, isData } = checkHclBlockType(centralPart)
+
+            if (isResourceWithName || (isData && !options.showDataSources)) {
+                const { resourceType, resourceName } = getResourceNameAndType(processedBlockId)
+                const isNodePresent = Array.from(nodeGroups.values()).some((group) => {
+                    return group.nodes.some((n) => {
+                        return n.nodeModel.id === (edge.targets[start ? 1 : 0] as any).id
+                    })
+                })
+                if (resourceType && resourceName && !isNodePresent &&
+                    catalog.some((row) => {
+                        return row["Main Diagram Blocks"].split(",").some((s: string) => s === nodeGroup.type) &&
+                            (row["Missing Resources"].split(",").some((s: string) => s === resourceType) ||
+                                row["Data Sources"].split(",").some((s: string) => s === resourceType))
+                    })) {
+                    const newNode = subgraph.nodes.filter((n) => { return n.id === (edge.targets[start ? 1 : 0] as any).id })[0]
+                    if (newNode) {
+
+                        let resourceChanges: any[] = []
+                        if (planJsonObj) {
+
+                            resourceChanges = planJsonObj.resource_changes.filter((resource: any) => matchesAddress(resource, newNode.id.split(" ")[1]))
+                        }
+
+                        const { state: generalState, numberOfChanges } = getGeneralState(resourceChanges)
+                        nodeGroup.numberOfChanges += numberOfChanges
+
+                        options.debugLog("Aggregating resource: " + newNode.id.split(" ")[1] + "\t->\t" + nodeGroup.id)
+
+                        nodeGroup.nodes.push({
+                            nodeModel: newNode,
+                            name: resourceName,
+                            type: resourceType,
+                            resourceChanges: resourceChanges
+                        })
+
+                        nodeGroup.state = nodeGroup.state !== "no-op" || !planJsonObj ? nodeGroup.state :
+                            generalState !== "no-op" ? "update" : generalState
+                        getConnectedNodes(newNode, nodeGroup, nodeGroups, subgraph, start, catalog, planJsonObj, options)
+                        getConnectedNodes(newNode, nodeGroup, nodeGroups, subgraph, !start, catalog, planJsonObj, options)
+                    }
+
+                }
+            }
+        }
+    })
+}
+
+// Groups the nodes of the graph around their main resources, and drops inactive and unchanged ones
+export const buildNodeGroups = (model: RootGraphModel, planJsonObj: any, options: ParseOptions) => {
+    const { computeTerraformPlan, debugLog } = options
+    const nodeGroups = new Map<string, NodeGroup>()
+    const catalog = mergeCatalogs(getBuiltInCatalog(), options.catalog || [])
+    debugLog("Adding main resources...")
+    model.subgraphs.forEach((subgraph) => {
+        subgraph.nodes.forEach((node) => {
+            addNodeToGroup(node, nodeGroups, true, catalog, planJsonObj, options)
+        })
+    })
+    debugLog("Adding main resources... Done.")
+
+    debugLog("Aggregating secondary resources...")
+    nodeGroups.forEach((nodeGroup) => {
+        getConnectedNodes(nodeGroup.mainNode, nodeGroup, nodeGroups, model.subgraphs[0], true, catalog, planJsonObj, options)
+        getConnectedNodes(nodeGroup.mainNode, nodeGroup, nodeGroups, model.subgraphs[0], false, catalog, planJsonObj, options)
+    })
+    debugLog("Aggregating secondary resources... Done.")
+
+    if (options.detailed) {
+        debugLog("Adding unconnected resources (detailed view)...")
+        // Add a nodeGroup for each node that is not connected to any other node
+        model.subgraphs[0].nodes.forEach((node) => {
+            if (!Array.from(nodeGroups.values()).some((group) => {
+                return group.nodes.some((n) => {
+                    return n.nodeModel.id === node.id
+                })
+            })) {
+                addNodeToGroup(node, nodeGroups, false, catalog, planJsonObj, options)
+            }
+        })
+        debugLog("Adding unconnected resources (detailed view)... Done.")
+    }
+
+    if (options.showDataSources) {
+        debugLog("Adding data sources...")
+        model.subgraphs[0].nodes.forEach((node) => {
+            addDataSourceToGroup(node, nodeGroups, catalog, planJsonObj, options)
+        })
+        debugLog("Adding data sources... Done.")
+    }
+
+    if (computeTerraformPlan) {
+        debugLog("Splitting module instances...")
+        splitModuleInstances(nodeGroups, debugLog)
+        debugLog("Splitting module instances... Done.")
+
+        debugLog("Removing inactive resources...")
+        // Remove nodeGroups whose first node has no resourceChanges
+        Array.from(nodeGroups.keys()).forEach((key) => {
+            const nodeGroup = nodeGroups.get(key)
+            if (nodeGroup && !nodeGroup.isData && nodeGroup.nodes[0].resourceChanges && nodeGroup.nodes[0].resourceChanges.length === 0) {
+                debugLog("Removing inactive main resource: " + nodeGroup.id)
+                nodeGroups.delete(key)
+            }
+        })
+        // Remove nodes whose resourceChanges are empty
+        nodeGroups.forEach((nodeGroup) => {
+            nodeGroup.nodes = nodeGroup.nodes.filter((node) => {
+                const keep = nodeGroup.isData || (node.resourceChanges && node.resourceChanges.length > 0)
+                if (!keep) {
+                    debugLog("Removing inactive secondary resource: " + node.nodeModel.id.split(" ")[1])
+                }
+                return keep
+            })
+        })
+        debugLog("Removing inactive resources... Done.")
+    }
+
+    if (!options.showUnchanged && computeTerraformPlan) {
+        debugLog("Removing unchanged resources...")
+        // Remove nodeGroups whose first node has no resourceChanges
+        Array.from(nodeGroups.keys()).forEach((key) => {
+            const nodeGroup = nodeGroups.get(key)
+            if (nodeGroup && !nodeGroup.isData && nodeGroup.numberOfChanges === 0) {
+                debugLog("Removing unchanged main resource: " + nodeGroup.id)
+                nodeGroups.delete(key)
+            }
+        })
+        // Remove nodes whose resourceChanges are empty
+        nodeGroups.forEach((nodeGroup) => {
+            nodeGroup.nodes = nodeGroup.nodes.filter((node) => {
+                const keep = nodeGroup.isData || (node.resourceChanges && node.resourceChanges.some((resourceChange) => {
+                    const actions = resourceChange.change.actions
+                    return (actions.length > 0 && actions.some((action: string) => action !== "no-op" && action !== "read")) ||
+                        isMovedChange(resourceChange)
+                }))
+                if (!keep) {
+                    debugLog("Removing unchanged secondary resource: " + node.nodeModel.id.split(" ")[1])
+                }
+                return keep
+            })
+        })
+        debugLog("Removing unchanged resources... Done.")
+    }
+
+    if (computeTerraformPlan) {
+        nodeGroups.forEach((nodeGroup) => setInstances(nodeGroup, options.showUnchanged))
+    }
+
+    return nodeGroups
+}
+
+// The resources of different instances of the same module are not connected to each other
+const areInDifferentModuleInstances = (fromGroup: NodeGroup, toGroup: NodeGroup) => {
+    const fromSegments = getModuleSegments(getModuleInstancePath(fromGroup))
+    const toSegments = getModuleSegments(getModuleInstancePath(toGroup))
+    const index = fromSegments.findIndex((segment, i) => segment !== toSegments[i])
+    return index !== -1 && index < toSegments.length && removeModuleKeys(fromSegments[index]) === removeModuleKeys(toSegments[index])
+}
+
+// Compute connections between groups
+export const computeConnections = (model: RootGraphModel, nodeGroups: Map<string, NodeGroup>) => {
+    model.subgraphs[0].edges.forEach((edge) => {
+        const edgeFromId = (edge.targets[0] as any).id
+        const edgeToId = (edge.targets[1] as any).id
+
+        // The instances of a module share the nodes of the graph
+        const fromGroups = Array.from(nodeGroups).filter(([id, group]) => {
+            return group.nodes.some((n) => {
+                return n.nodeModel.id === edgeFromId
+            })
+        })
+        const toGroups = Array.from(nodeGroups).filter(([id, group]) => {
+            return group.nodes.some((n) => {
+                return n.nodeModel.id === edgeToId
+            })
+        })
+        fromGroups.forEach((fromGroup) => toGroups.forEach((toGroup) => {
+            if (fromGroup[0] !== toGroup[0] && !areInDifferentModuleInstances(fromGroup[1], toGroup[1])) {
+                const fromGroupKey = fromGroup[0]
+                const toGroupKey = toGroup[0]
+                if (!fromGroup[1].connectionsIn.includes(toGroupKey) && !toGroup[1].connectionsOut.includes(fromGroupKey)) {
+                    fromGroup[1].connectionsIn.push(toGroupKey)
+                    toGroup[1].connectionsOut.push(fromGroupKey)
+                }
+            }
+        }))
+    })
+}
+
+
+// Replaces the stacks of the expanded resources with one node group per instance. Each instance
+// keeps the connections of its stack, since the graph has a single node for all the instances.
+export const expandInstances = (nodeGroups: Map<string, NodeGroup>, expandedStackIds: string[]) => {
+    expandedStackIds.forEach((stackId) => {
+        const stack = nodeGroups.get(stackId)
+        if (!stack || !stack.instances) return
+        const instanceIds = stack.instances.map((instance) => instance.address)
+        // The instances are not connected to each other
+        const connectionsIn = stack.connectionsIn.filter((connection) => connection !== stackId)
+        const connectionsOut = stack.connectionsOut.filter((connection) => connection !== stackId)
+        const replaceStack = (connections: string[]) => connections.map((connection) => connection === stackId ? instanceIds : [connection]).flat()
+        nodeGroups.forEach((nodeGroup) => {
+            nodeGroup.connectionsIn = replaceStack(nodeGroup.connectionsIn)
+            nodeGroup.connectionsOut = replaceStack(nodeGroup.connectionsOut)
+        })
+        nodeGroups.delete(stackId)
+        stack.instances.forEach((instance) => {
+            nodeGroups.set(instance.address, {
+                ...stack,
+                nodes: stack.nodes.map((node) => ({ ...node, resourceChanges: getInstanceChanges(node, instance.key) }))
+                    .filter((node) => node.resourceChanges.length > 0),
+                id: instance.address,
+                state: instance.state,
+                numberOfChanges: instance.numberOfChanges,
+                connectionsIn: [...connectionsIn],
+                connectionsOut: [...connectionsOut],
+                instances: undefined,
+                stackId,
+                instanceKey: instance.key
+            })
+        })
+    })
+}
+
+// Replaces the node groups of the collapsed modules, and of their nested modules, with one summary node group per module.
+// The connections to and from the resources of a module are rerouted to its summary node group.
+export const collapseModules = (nodeGroups: Map<string, NodeGroup>, collapsedModules: string[]) => {
+    collapsedModules.forEach((modulePath) => {
+        const members = Array.from(nodeGroups.values()).filter((nodeGroup) => isInModule(getModuleInstancePath(nodeGroup), modulePath))
+        if (members.length === 0) return
+        const memberIds = members.map((member) => member.id)
+        const reroute = (connections: string[]) => {
+            return Array.from(new Set(connections.map((connection) => memberIds.includes(connection) ? modulePath : connection)))
+        }
+        nodeGroups.forEach((nodeGroup) => {
+            nodeGroup.connectionsIn = reroute(nodeGroup.connectionsIn)
+            nodeGroup.connectionsOut = reroute(nodeGroup.connectionsOut)
+        })
+        memberIds.forEach((id) => nodeGroups.delete(id))
+
+        // The summary is drawn in the frame of the parent module
+        const segments = getModuleSegments(modulePath)
+        const parentSegments = segments.slice(0, -1)
+        const parentModules = parentSegments.map((segment) => removeModuleKeys(segment).slice("module.".length))
+        const moduleName = parentModules.pop()
+        const nodes = members.map((member) => member.nodes).flat()
+        const resourceChanges = nodes.map((node) => node.resourceChanges || []).flat()
+        nodeGroups.set(modulePath, {
+            nodes,
+            id: modulePath,
+            mainNode: members[0].mainNode,
+            connectionsIn: reroute(members.map((member) => member.connectionsIn).flat()).filter((connection) => connection !== modulePath),
+            connectionsOut: reroute(members.map((member) => member.connectionsOut).flat()).filter((connection) => connection !== modulePath),
+            numberOfChanges: members.reduce((sum, member) => sum + member.numberOfChanges, 0),
+            name: segments[segments.length - 1].slice("module.".length),
+            type: "module",
+            category: members[0].category,
+            iconPath: "",
+            serviceName: "Module",
+            moduleName,
+            parentModules,
+            moduleInstance: parentSegments.length > 0 ? parentSegments.join(".") : undefined,
+            state: getGeneralState(resourceChanges).state,
+            moduleSummary: {
+                path: modulePath,
+                nodeGroups: members,
+                resources: nodes.length,
+                changes: getChangesBreakdown(resourceChanges)
+            }
+        })
+    })
+}
+
+// The actions of the node group and of its secondary resources, e.g. a role whose policy attachment is replaced
+export const getNodeGroupActions = (nodeGroup: NodeGroup): PlanAction[] => {
+    const states = [
+        nodeGroup.state,
+        ...nodeGroup.nodes.map((node) => (node.resourceChanges || []).map((resourceChange) => getChangeState(resourceChange))).flat()
+    ]
+    return Array.from(new Set(states.map((state) => getPlanAction(state))))
+}
@@ -0,0 +1,78 @@
+import { NodeModel } from "ts-graphviz"
+import { ChangesBreakdown } from "../jsonPlanManager/jsonPlanManager"
+
+export type ResourceState = "no-op" | "create" | "read" | "update" | "delete" | "delete-create" | "create-delete" | "moved"
+
+export type ComparisonState = "only-a" | "only-b" | "same" | "different"
+
+// An instance of a resource created with count or for_each, e.g. aws_subnet.this["a"]
+export type ResourceInstance = {
+    key: string,
+    address: string,
+    state: ResourceState,
+    numberOfChanges: number
+}
+
+// A collapsed module frame, drawn as a single node
+export type ModuleSummary = {
+    path: string,
+    nodeGroups: NodeGroup[],
+    resources: number,
+    changes: ChangesBreakdown
+}
+
+export type NodeGroup = {
+    nodes: {
+        nodeModel: NodeModel,
+        name: string,
+        type: string,
+        resourceChanges?: any[]
+    }[],
+    id: string,
+    mainNode: NodeModel,
+    connectionsOut: string[],
+    connectionsIn: string[],
+    variableRefs?: string[],
+    outputRefs?: string[],
+    // The plan JSON has no definitions of the locals, so they are only known from these references
+    localRefs?: string[],
+    affectedOutputs?: string[],
+    numberOfChanges: number,
+    name: string,
+    type: string,
+    category: string,
+    iconPath: string,
+    serviceName: string
+    moduleName?: string
+    parentModules: string[]
+    // Set on the node groups of a module called with count or for_each, e.g. module.svc["api"]
+    moduleInstance?: string
+    state: ResourceState
+    frameShapeId?: string
+    comparison?: ComparisonState
+    // Set on the nodes of the data sources layer
+    isData?: boolean
+    // Set on the stacked node of a resource with count or for_each
+    instances?: ResourceInstance[]
+    // Set on the nodes of an expanded stack
+    stackId?: string
+    instanceKey?: string
+    // Set on the node of a collapsed module
+    moduleSummary?: ModuleSummary
+}
+
+export type TFVariableOutput = {
+    name: string,
+    module: string,
+    type: "variable" | "output",
+    expressionReferences: {
+        type: "variable" | "output" | "resource",
+        module: string,
+        name: string
+    }[]
+}
+
+export type Tag = {
+    name: string,
+    value: string
+}
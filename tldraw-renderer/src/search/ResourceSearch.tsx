@@ -0,0 +1,79 @@
+import { Autocomplete, TextField } from "@mui/material"
+import SearchIcon from '@mui/icons-material/Search';
+import { Editor, TLShapeId } from "@tldraw/tldraw";
+import { useMemo, useState } from "react";
+import { NodeGroup } from "../parser/types";
+import { getShapeId } from "../board/shapeUtils";
+import { SearchResult, getSearchEntries, searchEntries } from "./fuzzySearch";
+
+interface ResourceSearchProps {
+    editor: Editor
+    nodeGroups: NodeGroup[] | undefined
+    sidebarWidth: number
+}
+
+// Finds a resource by its address, name, type or module, and zooms to its node. Selecting the node opens the sidebar.
+const ResourceSearch = ({
+    editor,
+    nodeGroups,
+    sidebarWidth
+}: ResourceSearchProps) => {
+    const [query, setQuery] = useState<string>("")
+    const entries = useMemo(() => getSearchEntries(nodeGroups || []), [nodeGroups])
+    const results = useMemo(() => searchEntries(entries, query), [entries, query])
+
+    const jumpTo = (result: SearchResult | null) => {
+        if (!result) return
+        const shapeId = getShapeId(result.entry.targetId) as TLShapeId
+        if (!editor.getShape(shapeId)) return
+        editor.select(shapeId)
+        editor.zoomToSelection({ duration: 300 })
+        setQuery("")
+    }
+
+    return (
+        <div className="absolute left-0 flex justify-center z-200 pointer-events-none"
+            // Below the dependencies bar, which is shown with the sidebar
+            style={{ right: sidebarWidth + "rem", top: sidebarWidth > 0 ? "3rem" : "0.5rem" }}
+        >
+            <Autocomplete
+                className="pointer-events-auto"
+                sx={{ width: "22rem", backgroundColor: "white", borderRadius: "5px" }}
+                size="small"
+                options={results}
+                // The results are already filtered and sorted by the fuzzy search
+                filterOptions={(options) => options}
+                getOptionLabel={(result) => result.entry.nodeGroup.id}
+                isOptionEqualToValue={(option, value) => option.entry === value.entry}
+                value={null}
+                inputValue={query}
+                onInputChange={(_event, value, reason) => {
+                    if (reason !== "reset") setQuery(value)
+                }}
+                onChange={(_event, result) => jumpTo(result)}
+                noOptionsText={query.trim() ? "No resources found" : "Type an address, name, type or module"}
+                blurOnSelect
+                renderOption={(props, result) => (
+                    <li {...props} key={result.entry.nodeGroup.id + " " + result.entry.targetId}>
+                        <div className="flex flex-col min-w-0">
+                            <div className="text-sm truncate">{result.entry.nodeGroup.name + (result.entry.nodeGroup.instanceKey || "")}</div>
+                            <div className="text-[10px] text-[#504758] truncate">
+                                {result.entry.nodeGroup.id + (result.entry.targetId !== result.entry.nodeGroup.id ? " (in " + result.entry.targetId + ")" : "")}
+                            </div>
+                        </div>
+                    </li>
+                )}
+                renderInput={(params) => (
+                    <TextField {...params}
+                        placeholder="Search resources"
+                        InputProps={{
+                            ...params.InputProps,
+                            startAdornment: <SearchIcon fontSize="small" />
+                        }} />
+                )}
+            />
+        </div>
+    )
+}
+
+export default ResourceSearch;
@@ -0,0 +1,57 @@
+import { NodeGroup } from "../parser/types"
+import { fuzzyScore, getSearchEntries, searchEntries } from "./fuzzySearch"
+
+const nodeGroup = (id: string, type: string, name: string, addresses: string[], fields: Partial<NodeGroup> = {}): NodeGroup => ({
+    nodes: addresses.map((address) => ({ nodeModel: { id: "[root] " + address + " (expand)" } as any, name: address.split(".").pop()!, type })),
+    id,
+    mainNode: { id: "[root] " + addresses[0] + " (expand)" } as any,
+    connectionsOut: [],
+    connectionsIn: [],
+    numberOfChanges: 0,
+    name,
+    type,
+    category: "",
+    iconPath: "",
+    serviceName: "",
+    parentModules: [],
+    state: "no-op",
+    ...fields
+})
+
+describe("fuzzyScore", () => {
+    it("matches the characters of the query in order", () => {
+        expect(fuzzyScore("lmbapi", "aws_lambda_function.api")).toBeDefined()
+        expect(fuzzyScore("ipa", "aws_lambda_function.api")).toBeUndefined()
+    })
+
+    it("scores substrings higher than scattered characters", () => {
+        expect(fuzzyScore("api", "aws_lambda_function.api")!).toBeGreaterThan(fuzzyScore("lfa", "aws_lambda_function.api")!)
+    })
+})
+
+describe("searchEntries", () => {
+    const nodeGroups = [
+        nodeGroup("aws_vpc.main", "aws_vpc", "main", ["aws_vpc.main"]),
+        nodeGroup("module.svc[\"web\"].aws_iam_role.this", "aws_iam_role", "this",
+            ["module.svc.aws_iam_role.this", "module.svc.aws_lambda_function.x"],
+            { moduleName: "svc", moduleInstance: "module.svc[\"web\"]" }),
+        nodeGroup("module.svc[\"api\"].aws_iam_role.this", "aws_iam_role", "this",
+            ["module.svc.aws_iam_role.this", "module.svc.aws_lambda_function.x"],
+            { moduleName: "svc", moduleInstance: "module.svc[\"api\"]" })
+    ]
+    const entries = getSearchEntries(nodeGroups)
+
+    it("finds a node group by the address of a secondary node, in its module instance", () => {
+        const results = searchEntries(entries, "module.svc[\"web\"].aws_lambda_function.x")
+        expect(results[0].entry.nodeGroup.id).toBe("module.svc[\"web\"].aws_iam_role.this")
+    })
+
+    it("does not match the short names of the secondary nodes", () => {
+        expect(entries.every((entry) => !entry.fields.includes("x"))).toBe(true)
+    })
+
+    it("requires every word of the query to match", () => {
+        expect(searchEntries(entries, "vpc main")[0].entry.nodeGroup.id).toBe("aws_vpc.main")
+        expect(searchEntries(entries, "vpc zzz")).toEqual([])
+    })
+})
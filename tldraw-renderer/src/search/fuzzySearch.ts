@@ -0,0 +1,91 @@
+import { NodeGroup } from "../parser/types"
+import { getModuleInstancePath, getModuleLabel, getModulePath } from "../utils/modules"
+
+const maxResults = 20
+// Characters after which a match starts a new word of an address, e.g. the name in aws_s3_bucket.logs
+const wordSeparators = [".", "_", "-", "[", "]", "\"", "/", " "]
+
+// A node group that can be found by the search, and the node group drawn on the canvas for it: the resources of a
+// collapsed module are found on the node of the module
+export type SearchEntry = {
+    nodeGroup: NodeGroup,
+    targetId: string,
+    fields: string[]
+}
+
+export type SearchResult = {
+    entry: SearchEntry,
+    score: number
+}
+
+// Scores how well the query matches the text, with the characters of the query in order but not necessarily next to
+// each other. Matches of whole substrings, at the start of words and on consecutive characters score higher.
+export const fuzzyScore = (query: string, text: string): number | undefined => {
+    const lowerQuery = query.toLowerCase(), lowerText = text.toLowerCase()
+    if (lowerQuery.length === 0) return undefined
+    const isWordStart = (index: number) => index === 0 || wordSeparators.includes(lowerText[index - 1])
+
+    const substringIndex = lowerText.indexOf(lowerQuery)
+    if (substringIndex !== -1) {
+        return 100 + (isWordStart(substringIndex) ? 20 : 0) + (lowerQuery.length === lowerText.length ? 20 : 0) - lowerText.length * 0.1
+    }
+
+    let score = 0, textIndex = 0, previousIndex = -2
+    for (const char of lowerQuery) {
+        const index = lowerText.indexOf(char, textIndex)
+        if (index === -1) return undefined
+        score += 1 + (index === previousIndex + 1 ? 5 : 0) + (isWordStart(index) ? 3 : 0)
+        previousIndex = index
+        textIndex = index + 1
+    }
+    return score - lowerText.length * 0.1
+}
+
+// The address of a node of the graph, e.g. "[root] module.svc.aws_iam_role.r (expand)", in the module instance of its
+// node group, e.g. module.svc["api"].aws_iam_role.r
+const getNodeAddress = (nodeGroup: NodeGroup, node: NodeGroup["nodes"][number]) => {
+    const address = node.nodeModel.id.split(" ")[1] || ""
+    return nodeGroup.moduleInstance ? nodeGroup.moduleInstance + address.slice(getModulePath(nodeGroup).length) : address
+}
+
+// The address, name, type and module of the node groups, and the addresses of their other nodes and instances
+export const getSearchEntries = (nodeGroups: NodeGroup[]): SearchEntry[] => {
+    const entries = (nodeGroup: NodeGroup, targetId: string): SearchEntry[] => {
+        if (nodeGroup.moduleSummary) {
+            return [
+                { nodeGroup, targetId, fields: [nodeGroup.id, getModuleLabel(nodeGroup.id)] },
+                ...nodeGroup.moduleSummary.nodeGroups.map((child) => entries(child, targetId)).flat()
+            ]
+        }
+        return [{
+            nodeGroup,
+            targetId,
+            fields: [
+                nodeGroup.id,
+                nodeGroup.name + (nodeGroup.instanceKey || ""),
+                nodeGroup.type,
+                ...(nodeGroup.moduleName ? [getModuleInstancePath(nodeGroup)] : []),
+                ...nodeGroup.nodes.map((node) => getNodeAddress(nodeGroup, node)),
+                ...(nodeGroup.instances || []).map((instance) => instance.address)
+            ]
+        }]
+    }
+    return nodeGroups.map((nodeGroup) => entries(nodeGroup, nodeGroup.id)).flat()
+}
+
+// Each word of the query has to match one of the fields of the entry
+export const searchEntries = (entries: SearchEntry[], query: string): SearchResult[] => {
+    const words = query.trim().split(/\s+/).filter((word) => word.length > 0)
+    if (words.length === 0) return []
+    const results: SearchResult[] = []
+    entries.forEach((entry) => {
+        let score = 0
+        for (const word of words) {
+            const scores = entry.fields.map((field) => fuzzyScore(word, field)).filter((s): s is number => s !== undefined)
+            if (scores.length === 0) return
+            score += Math.max(...scores)
+        }
+        results.push({ entry, score })
+    })
+    return results.sort((a, b) => b.score - a.score || a.entry.nodeGroup.id.localeCompare(b.entry.nodeGroup.id)).slice(0, maxResults)
+}
@@ -1,13 +1,16 @@
 import { useState } from "react";
 import Sidebar from "../sidebar/Sidebar";
 import { Dependency, moduleDependencies, resourceDependencies } from "../dependencies/dependencies";
-import { NodeGroup, TFVariableOutput } from "../TLDWrapper";
+import { NodeGroup, TFVariableOutput } from "../parser/types";
 import DependencyUI from "../dependencies/DependenciesUI";
 import { Editor, TLShapeId } from "@tldraw/tldraw";
 import { computeShading, resetShading } from "../editorHandler/shading";
 import { ChangesBreakdown, getChangesBreakdown, nodeChangesToString } from "../jsonPlanManager/jsonPlanManager";
 import EditorHandler from "../editorHandler/EditorHandler";
 import { getMacroCategory } from "../utils/awsCategories";
+import { getNodeGroupId } from "../board/shapeUtils";
+import { getModuleLabel, getModulePath, removeModuleKeys } from "../utils/modules";
+import { getTagFrameLabel, isTagFrameId } from "../utils/tags";
 
 interface SelectionHandlerProps {
     editor: Editor,
@@ -16,6 +19,9 @@ interface SelectionHandlerProps {
     setShowSidebar: (showSidebar: boolean) => void
     shapesSnapshot: string
     hasPlanJson: boolean
+    isCompare: boolean
+    toggleInstances: (stackId: string) => void
+    toggleModule: (modulePath: string) => void
     variables: TFVariableOutput[]
     outputs: TFVariableOutput[]
 }
@@ -27,6 +33,9 @@ const SelectionHandler = ({
     setShowSidebar,
     shapesSnapshot,
     hasPlanJson,
+    isCompare,
+    toggleInstances,
+    toggleModule,
     variables,
     outputs
 }: SelectionHandlerProps) => {
@@ -35,6 +44,7 @@ const SelectionHandler = ({
     const [currentShapeId, setCurrentShapeId] = useState<string>("")
     const [moduleDrilldownData, setModuleDrilldownData] = useState<{ category: string, textToShow: string, changesBreakdown: ChangesBreakdown }[]>([])
     const [diffText, setDiffText] = useState<string>("")
+    const [compareText, setCompareText] = useState<{ a: string, b: string } | undefined>()
     const [dependencies, setDependencies] = useState<Dependency[]>([])
     const [affected, setAffected] = useState<Dependency[]>([])
     const [selectedResourceId, setSelectedResourceId] = useState<string>("")
@@ -72,12 +82,22 @@ const SelectionHandler = ({
         return false
     }
 
+    // The node groups of the collapsed modules are in their summary node group
+    const expandModuleSummaries = (nodeGroups: NodeGroup[]): NodeGroup[] => {
+        return nodeGroups.map((nodeGroup) => nodeGroup.moduleSummary ? expandModuleSummaries(nodeGroup.moduleSummary.nodeGroups) : [nodeGroup]).flat()
+    }
+
     const handleFrameSelection = (frameId: string, storedNodeGroups: NodeGroup[], newShowAllValue?: boolean) => {
-        setSelectedNode(undefined)
-        const childrenNodes = storedNodeGroups.filter((nodeGroup) => {
+        const childrenNodes = expandModuleSummaries(storedNodeGroups.filter((nodeGroup) => {
             return nodeGroup.frameShapeId && isNestedChildOfFrame(nodeGroup.frameShapeId, frameId)
-        })
-        const moduleName = (editor.getShape(frameId as TLShapeId)?.props as any).name || ""
+        }))
+        // Frames are keyed on the full path of their module instance, or on the value of their tag
+        handleModuleSelection(getNodeGroupId(frameId), childrenNodes, storedNodeGroups, newShowAllValue)
+    }
+
+    // Shows the changes of a module frame, or of a collapsed module
+    const handleModuleSelection = (moduleName: string, childrenNodes: NodeGroup[], storedNodeGroups: NodeGroup[], newShowAllValue?: boolean) => {
+        setSelectedNode(undefined)
         setSelectedModule(moduleName)
         const moduleChanges = childrenNodes.map((nodeGroup) => {
             return {
@@ -86,7 +106,8 @@ const SelectionHandler = ({
             }
         })
         const moduleDrilldownData = processModuleChanges(moduleChanges, newShowAllValue)
-        const { dependencies, affected } = moduleDependencies(storedNodeGroups, moduleName || "root_module", variables, outputs)
+        const { dependencies, affected } = isTagFrameId(moduleName) ? { dependencies: [], affected: [] } :
+            moduleDependencies(expandModuleSummaries(storedNodeGroups), removeModuleKeys(moduleName) || "root_module", variables, outputs)
         setDependencies(dependencies)
         setAffected(affected)
         setModuleDrilldownData(moduleDrilldownData)
@@ -104,6 +125,7 @@ const SelectionHandler = ({
             setAffected([])
             setSelectedModule("")
             setDiffText("")
+            setCompareText(undefined)
             resetShading(editor!, shapesSnapshot)
             if (element)
                 element.style.display = ""
@@ -115,11 +137,15 @@ const SelectionHandler = ({
             if (shape?.type === "frame") {
                 handleFrameSelection(shapeId, nodeGroups, newShowAllValue)
             } else {
-                // remove shape: prefix, and date suffix
-                const shapeIdWithoutPrefixAndSuffix = shapeId.split(":")[1]
+                // remove shape: prefix
+                const shapeIdWithoutPrefixAndSuffix = getNodeGroupId(shapeId)
                 const selectedNodeGroup = nodeGroups?.filter((nodeGroup) => {
                     return nodeGroup.id === shapeIdWithoutPrefixAndSuffix
                 })[0]
+                if (selectedNodeGroup?.moduleSummary) {
+                    handleModuleSelection(selectedNodeGroup.moduleSummary.path, expandModuleSummaries([selectedNodeGroup]), nodeGroups, newShowAllValue)
+                    return
+                }
                 setModuleDrilldownData([])
                 setSelectedNode(selectedNodeGroup)
 
@@ -138,6 +164,17 @@ const SelectionHandler = ({
 
                 setDiffText(textToShow || "No changes detected")
                 setSelectedResourceId(resourceId || "")
+
+                if (isCompare) {
+                    const resourceChanges: any[] = selectedNodeGroup.nodes.map((node) => node.resourceChanges || []).flat()
+                    // Show each plan on its own, using the change it contains for every resource
+                    const planText = (key: "changeA" | "changeB") => {
+                        const planChanges = resourceChanges.filter((rc) => rc[key]).map((rc) => ({ ...rc, change: rc[key] }))
+                        return planChanges.length > 0 ? nodeChangesToString(planChanges,
+                            newShowAllValue !== undefined ? newShowAllValue : showAll).textToShow || "No changes detected" : ""
+                    }
+                    setCompareText({ a: planText("changeA"), b: planText("changeB") })
+                }
             }
         }
     }
@@ -149,22 +186,33 @@ const SelectionHandler = ({
 
     return (
         <>
-            {(selectedNode || selectedModule) && nodeGroups && editor &&
+            {(selectedNode || (selectedModule && !isTagFrameId(selectedModule))) && nodeGroups && editor &&
                 <DependencyUI dependencies={dependencies}
                     affected={affected}
                     sidebarWidth={sidebarWidth}
                     nodeGroups={nodeGroups}
-                    moduleName={selectedNode?.moduleName || selectedModule}
+                    moduleName={selectedNode ? getModulePath(selectedNode) : removeModuleKeys(selectedModule)}
                     type={selectedNode ? "resource" : "module"}
                     editor={editor} />}
             {sidebarWidth > 0 &&
                 <Sidebar width={sidebarWidth}
                     showAll={showAll}
                     moduleDrilldownData={moduleDrilldownData}
-                    title={selectedNode?.name || selectedModule || ""}
+                    title={selectedNode ? selectedNode.name + (selectedNode.instanceKey || "") : selectedModule ? isTagFrameId(selectedModule) ? getTagFrameLabel(selectedModule) : getModuleLabel(selectedModule) : ""}
                     text={diffText}
+                    compareText={selectedNode ? compareText : undefined}
                     resourceId={selectedResourceId}
                     subtitle={selectedNode?.type || ""}
+                    toggleAction={selectedNode?.instances ? {
+                        label: `Expand ${selectedNode.instances.length} instances`,
+                        action: () => toggleInstances(selectedNode.id)
+                    } : selectedNode?.stackId ? {
+                        label: "Collapse instances",
+                        action: () => toggleInstances(selectedNode.stackId!)
+                    } : selectedModule && !isTagFrameId(selectedModule) ? {
+                        label: nodeGroups?.some((nodeGroup) => nodeGroup.id === selectedModule && nodeGroup.moduleSummary) ? "Expand module" : "Collapse module",
+                        action: () => toggleModule(selectedModule)
+                    } : undefined}
                     closeSidebar={() => closeSidebar()}
                     handleShowAllChange={handleShowAllChange}
                 />
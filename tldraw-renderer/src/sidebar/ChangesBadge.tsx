@@ -10,7 +10,8 @@ const ChangesBadge = ({
             style={{
                 backgroundColor: action === "create" ? "#37BB65" :
                     action === "delete" ? "#E22134" :
-                        action === "update" ? "#F2960D" : "#797181",
+                        action === "update" ? "#F2960D" :
+                            action === "moved" ? "#3B82F6" : "#797181",
                 fontSize: "12px",
                 minWidth: number > 999 ? "max-content" : "1.5rem",
             }}
@@ -4,6 +4,7 @@ import { useState } from "react";
 
 interface ResourceDrilldownProps {
     text: string;
+    compareText?: { a: string, b: string };
     handleShowAllChange: (showHidden: boolean) => void;
     showAll: boolean;
     resourceId: string;
@@ -11,6 +12,7 @@ interface ResourceDrilldownProps {
 
 const ResourceDrilldown = ({
     text,
+    compareText,
     handleShowAllChange,
     resourceId,
     showAll,
@@ -19,10 +21,23 @@ const ResourceDrilldown = ({
     const [justCopied, setJustCopied] = useState(false);
     return (
         <>
-            <div className="bg-[#302B35] text-white overflow-scroll h-full p-4 grow rounded text-[0.7rem]"
-                style={{ fontFamily: '"Cascadia Code", sans-serif', lineHeight: "1rem" }}
-                dangerouslySetInnerHTML={{ __html: text }}
-            />
+            {compareText ?
+                <div className="flex h-full grow gap-2 overflow-hidden">
+                    {[["Plan A", compareText.a], ["Plan B", compareText.b]].map(([planName, planText]) => (
+                        <div key={planName} className="flex flex-col w-1/2 h-full">
+                            <Typography sx={{ fontSize: "0.875rem", marginBottom: "0.25rem" }}>{planName}</Typography>
+                            <div className="bg-[#302B35] text-white overflow-scroll h-full p-4 grow rounded text-[0.7rem]"
+                                style={{ fontFamily: '"Cascadia Code", sans-serif', lineHeight: "1rem" }}
+                                dangerouslySetInnerHTML={{ __html: planText || "Not in " + planName }}
+                            />
+                        </div>
+                    ))}
+                </div> :
+                <div className="bg-[#302B35] text-white overflow-scroll h-full p-4 grow rounded text-[0.7rem]"
+                    style={{ fontFamily: '"Cascadia Code", sans-serif', lineHeight: "1rem" }}
+                    dangerouslySetInnerHTML={{ __html: text }}
+                />
+            }
             <div className="w-[22rem] my-4 h-[1px] bg-[#B2AEB6]" />
             <div className="mb-4 flex">
                 <div className="grow">
@@ -43,7 +58,7 @@ const ResourceDrilldown = ({
                 </div>
                 {resourceId &&
                     <div className="flex text-right">
-                        <Typography sx={{ fontSize: "0.875rem" }}>{"Copy AWS ID"}</Typography>
+                        <Typography sx={{ fontSize: "0.875rem" }}>{"Copy resource ID"}</Typography>
                         <Tooltip title={justCopied ? "Copied!" : "Copy"}
                             onClose={() => setTimeout(() => setJustCopied(false), 500)}
                             placement="top">
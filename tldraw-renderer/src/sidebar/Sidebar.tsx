@@ -1,4 +1,4 @@
-import { Checkbox, Drawer, FormControlLabel, FormGroup, IconButton, Tooltip, Typography } from "@mui/material"
+import { Button, Checkbox, Drawer, FormControlLabel, FormGroup, IconButton, Tooltip, Typography } from "@mui/material"
 import "./Sidebar.css"
 import CloseIcon from '@mui/icons-material/Close';
 import ResourceDrilldown from "./ResourceDrilldown";
@@ -9,6 +9,7 @@ import ChangesBadge from "./ChangesBadge";
 interface SidebarProps {
     width: number;
     text: string;
+    compareText?: { a: string, b: string };
     handleShowAllChange: (showHidden: boolean) => void;
     moduleDrilldownData: { category: string, textToShow: string, changesBreakdown: ChangesBreakdown }[];
     resourceId: string;
@@ -16,16 +17,20 @@ interface SidebarProps {
     closeSidebar: () => void;
     title: string
     subtitle: string
+    // Expands or collapses the instances of a resource with count or for_each, or a module frame
+    toggleAction?: { label: string, action: () => void }
 }
 const Sidebar = ({
     width,
     text,
+    compareText,
     handleShowAllChange,
     moduleDrilldownData,
     showAll,
     resourceId,
     title,
     subtitle,
+    toggleAction,
     closeSidebar,
 
 }: SidebarProps) => {
@@ -38,6 +43,8 @@ const Sidebar = ({
                 return "Updated"
             case "delete":
                 return "Deleted"
+            case "moved":
+                return "Moved"
             case "unchanged":
                 return "Unchanged"
             default:
@@ -50,6 +57,7 @@ const Sidebar = ({
             create: 0,
             update: 0,
             delete: 0,
+            moved: 0,
             unchanged: 0,
         }
         moduleDrilldownData.map((moduleChange) => moduleChange.changesBreakdown)
@@ -57,6 +65,7 @@ const Sidebar = ({
                 moduleChanges.create += changesBreakdown.create
                 moduleChanges.update += changesBreakdown.update
                 moduleChanges.delete += changesBreakdown.delete
+                moduleChanges.moved += changesBreakdown.moved
                 moduleChanges.unchanged += changesBreakdown.unchanged
             })
         return (
@@ -110,6 +119,12 @@ const Sidebar = ({
                         {subtitle}
                     </div>
                 }
+                {toggleAction &&
+                    <Button size="small" variant="outlined" onClick={() => toggleAction.action()}
+                        sx={{ marginTop: "0.5rem", textTransform: "none" }}>
+                        {toggleAction.label}
+                    </Button>
+                }
                 {
                     moduleDrilldownData.length > 0 &&
                     moduleChanges()
@@ -130,6 +145,7 @@ const Sidebar = ({
                     <ResourceDrilldown
                         showAll={showAll}
                         text={text}
+                        compareText={compareText}
                         resourceId={resourceId}
                         handleShowAllChange={handleShowAllChange}
                     />
@@ -0,0 +1,33 @@
+import fs from "fs"
+import path from "path"
+import Papa from "papaparse"
+import { CatalogRow } from "../catalog/catalog"
+import { azurermResourcesCsv } from "../azurermResourcesCsv"
+import { googleResourcesCsv } from "../googleResourcesCsv"
+import { getMacroCategory, macroCategories } from "./awsCategories"
+
+const publicDir = path.join(__dirname, "../../public")
+
+const parseCatalog = (csv: string) => Papa.parse<CatalogRow>(csv, { delimiter: ",", header: true, skipEmptyLines: true }).data
+
+describe("getMacroCategory", () => {
+    it("defaults to Other for the categories that are not mapped", () => {
+        expect(getMacroCategory("DNS")).toBe("Networking")
+        expect(getMacroCategory("Unknown category")).toBe("Other")
+    })
+})
+
+describe.each([
+    ["Azure", azurermResourcesCsv],
+    ["Google Cloud", googleResourcesCsv]
+])("the %s catalog", (_provider, csv) => {
+    const rows = parseCatalog(csv)
+
+    it("maps every simplified category", () => {
+        expect(rows.map((row) => row["Simplified Category"]).filter((category) => !(category in macroCategories))).toEqual([])
+    })
+
+    it("has an icon for every service", () => {
+        expect(rows.filter((row) => !fs.existsSync(path.join(publicDir, row["Icon Path"]))).map((row) => row["Service Name"])).toEqual([])
+    })
+})
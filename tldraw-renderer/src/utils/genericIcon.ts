@@ -0,0 +1,37 @@
+// Brand colors of common providers that are not in the built-in catalog
+const providerColors: { [provider: string]: string } = {
+    'kubernetes': '#326CE5',
+    'helm': '#0F1689',
+    'datadog': '#632CA6',
+    'cloudflare': '#F38020',
+    'github': '#24292F',
+    'random': '#6B7280',
+    'null': '#9CA3AF',
+    'time': '#0E7490',
+    'tls': '#15803D',
+    'vault': '#1D1D1D',
+}
+
+// Colors of the other providers, picked from the provider name so that they are stable across runs
+const fallbackColors = ['#B45309', '#0F766E', '#7C3AED', '#BE185D', '#1D4ED8', '#4D7C0F', '#9F1239', '#0369A1']
+
+export const getProviderName = (resourceType: string) => {
+    return resourceType.split("_")[0]
+}
+
+export const getProviderColor = (provider: string) => {
+    if (providerColors[provider]) return providerColors[provider]
+    const hash = provider.split("").reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) % 1000003, 7)
+    return fallbackColors[hash % fallbackColors.length]
+}
+
+// Icon of the resources that are not in the catalog: a generic block, in the color of the provider
+export const getGenericIconPath = (resourceType: string) => {
+    const provider = getProviderName(resourceType)
+    const svg = `<svg width="64px" height="64px" viewBox="0 0 64 64" version="1.1" xmlns="http://www.w3.org/2000/svg">` +
+        `<rect x="0" y="0" width="64" height="64" fill="${getProviderColor(provider)}"></rect>` +
+        `<path d="M32 8 L48 17 L48 35 L32 44 L16 35 L16 17 Z M16 17 L32 26 L48 17 M32 26 L32 44" fill="none" stroke="#FFFFFF" stroke-width="2.5" stroke-linejoin="round"></path>` +
+        `<text x="32" y="55" text-anchor="middle" dominant-baseline="central" font-family="Arial, Helvetica, sans-serif" font-size="8" fill="#FFFFFF">${provider.replace(/[^a-z0-9-]/gi, "")}</text>` +
+        `</svg>`
+    return "data:image/svg+xml;base64," + btoa(svg)
+}
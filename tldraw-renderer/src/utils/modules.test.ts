@@ -0,0 +1,24 @@
+import { removeModuleKeys, resolveModuleInstances } from "./modules"
+
+describe("removeModuleKeys", () => {
+    it("removes the keys of the module instances, but not of the resources", () => {
+        expect(removeModuleKeys("module.svc[\"web.x\"].module.db[0].aws_s3_bucket.this[\"a\"]")).toBe("module.svc.module.db.aws_s3_bucket.this[\"a\"]")
+    })
+})
+
+describe("resolveModuleInstances", () => {
+    const instancePaths = ["root_module", "module.svc[\"api\"]", "module.svc[\"web\"]", "module.svc[\"api\"].module.db", "module.svc[\"web\"].module.db"]
+
+    it("resolves a module in the same instance", () => {
+        expect(resolveModuleInstances("module.svc", "module.svc[\"api\"]", instancePaths)).toEqual(["module.svc[\"api\"]"])
+    })
+
+    it("resolves a child module in the instance of its parent", () => {
+        expect(resolveModuleInstances("module.svc.module.db", "module.svc[\"web\"]", instancePaths)).toEqual(["module.svc[\"web\"].module.db"])
+    })
+
+    it("resolves all the instances of a module called from the root module", () => {
+        expect(resolveModuleInstances("module.svc", "root_module", instancePaths)).toEqual(["module.svc[\"api\"]", "module.svc[\"web\"]"])
+        expect(resolveModuleInstances("root_module", "module.svc[\"api\"]", instancePaths)).toEqual(["root_module"])
+    })
+})
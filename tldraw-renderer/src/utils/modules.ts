@@ -0,0 +1,52 @@
+import { NodeGroup } from "../parser/types"
+
+// Modules are identified by their full path, e.g. "module.app.module.db", and the root module by "root_module"
+export const getModulePath = (nodeGroup: NodeGroup) => {
+    if (!nodeGroup.moduleName) return "root_module"
+    return [...nodeGroup.parentModules, nodeGroup.moduleName].map((module) => "module." + module).join(".")
+}
+
+export const getChildModulePath = (modulePath: string, childModule: string) => {
+    return (modulePath === "root_module" ? "" : modulePath + ".") + "module." + childModule
+}
+
+// Whether the module path is the given module, or one of its nested modules
+export const isInModule = (modulePath: string, module: string) => {
+    return module === "root_module" || modulePath === module || modulePath.startsWith(module + ".")
+}
+
+// The modules of a path, with the keys of the instances created with count or for_each, e.g. module.svc["api"]
+const moduleSegmentPattern = /module\.[^.[\]]+(?:\[(?:"(?:[^"\\]|\\.)*"|\d+)\])?/g
+
+export const getModuleSegments = (modulePath: string) => {
+    return modulePath.match(moduleSegmentPattern) || []
+}
+
+// The address in the configuration, e.g. module.svc.aws_lambda_function.x for module.svc["api"].aws_lambda_function.x
+export const removeModuleKeys = (address: string) => {
+    return address.replace(moduleSegmentPattern, (segment) => segment.replace(/\[.*\]$/, ""))
+}
+
+// The path of the module instance of the node group, which is also the id of its frame
+export const getModuleInstancePath = (nodeGroup: NodeGroup) => {
+    return nodeGroup.moduleInstance || getModulePath(nodeGroup)
+}
+
+// A readable label for the frame of a module, e.g. "module.app › db" for module.app.module.db
+export const getModuleLabel = (modulePath: string) => {
+    return "module." + getModuleSegments(modulePath).map((segment) => segment.slice("module.".length)).join(" › ")
+}
+
+// The instances of a module path among the given instance paths, as seen from a module instance: the modules they share
+// are the same instances, e.g. module.svc.module.db from module.svc["api"] is module.svc["api"].module.db
+export const resolveModuleInstances = (modulePath: string, fromInstance: string, instancePaths: string[]) => {
+    const segments = getModuleSegments(modulePath), fromSegments = getModuleSegments(fromInstance)
+    let shared = 0
+    while (shared < segments.length && shared < fromSegments.length && removeModuleKeys(fromSegments[shared]) === segments[shared]) {
+        shared++
+    }
+    const sharedPath = fromSegments.slice(0, shared).join(".")
+    return instancePaths.filter((instancePath) => {
+        return removeModuleKeys(instancePath) === modulePath && getModuleSegments(instancePath).slice(0, shared).join(".") === sharedPath
+    })
+}
@@ -1,8 +1,19 @@
+// Resource types are prefixed by the name of their provider, e.g. "aws_instance" or "kubernetes_deployment"
+export const isResourceType = (blockId: string) => {
+    return /^[a-z0-9]+_[a-z0-9_]+$/.test(blockId.split(".")[0])
+}
+
 export const getResourceNameAndType = (blockId: string) => {
-    const resourceType = blockId.split(".") && blockId.split(".").filter(s => s.startsWith("aws_")).length > 0 ?
-        blockId.split(".").filter(s => s.startsWith("aws_"))[0] : undefined
-    const resourceName = resourceType && blockId.split(".").filter((s, index) => {
-        return index > 0 && blockId.split(".")[index - 1] === resourceType
-    })[0].split(" ")[0]
+    const segments = blockId.split(".")
+    // Skip the "module.<name>" prefixes of nested modules, and the "data" prefix of data sources
+    let index = 0
+    while (segments[index] === "module") {
+        index += 2
+    }
+    if (segments[index] === "data") {
+        index++
+    }
+    const resourceType = segments[index] && isResourceType(segments[index]) ? segments[index] : undefined
+    const resourceName = resourceType && segments[index + 1] ? segments[index + 1].split(" ")[0] : undefined
     return { resourceType, resourceName }
 }
\ No newline at end of file
@@ -59,3 +59,19 @@ export const sendData = async (data: Object) => {
         .then(response => response.json())
 }
 
+// Saves the positions of the shapes arranged by hand into the layout file of the Terraform project
+export const sendLayout = async (layout: Object) => {
+    if (typeof chrome === 'undefined' || !chrome.runtime || !chrome.runtime.id) {
+        try {
+            await fetch('/save-layout', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify(layout),
+            });
+        } catch (error) {
+            console.error('Failed to fetch /save-layout', error);
+        }
+    }
+}
@@ -0,0 +1,63 @@
+import { NodeGroup } from "../parser/types"
+import { getGroupingTag, getNodeGroupTags, getResourceChangeTags, getTagFrameId, getTagFrameLabel, isTagFrameId, matchesTagFilters } from "./tags"
+
+const resourceChange = (actions: string[], before: any, after: any) => ({
+    change: { actions, before, after }
+})
+
+const nodeGroup = (...resourceChanges: any[][]) => ({
+    nodes: resourceChanges.map((changes) => ({ resourceChanges: changes }))
+} as any as NodeGroup)
+
+describe("getResourceChangeTags", () => {
+    it("reads tags_all, or tags, after the change", () => {
+        expect(getResourceChangeTags(resourceChange(["update"], { tags: { Team: "old" } }, { tags: { Team: "core" }, tags_all: { Team: "core", Env: "prod" } })))
+            .toEqual([{ name: "Team", value: "core" }, { name: "Env", value: "prod" }])
+        expect(getResourceChangeTags(resourceChange(["create"], null, { tags: { Team: "core" } }))).toEqual([{ name: "Team", value: "core" }])
+    })
+
+    it("reads the tags before the change for the deletions", () => {
+        expect(getResourceChangeTags(resourceChange(["delete"], { tags: { Team: "core" } }, null))).toEqual([{ name: "Team", value: "core" }])
+    })
+
+    it("ignores the tags whose values are unknown until apply", () => {
+        expect(getResourceChangeTags(resourceChange(["create"], null, { tags: { Team: "core", Id: null } }))).toEqual([{ name: "Team", value: "core" }])
+    })
+})
+
+describe("matchesTagFilters", () => {
+    const group = nodeGroup(
+        [resourceChange(["create"], null, { tags: { Team: "core" } })],
+        [resourceChange(["create"], null, { tags: { Team: "core", Env: "prod" } })]
+    )
+
+    it("collects the tags of all the resources of the node group once", () => {
+        expect(getNodeGroupTags(group)).toEqual([{ name: "Team", value: "core" }, { name: "Env", value: "prod" }])
+    })
+
+    it("matches a key=value filter on the value, and a key filter on any value", () => {
+        expect(matchesTagFilters(group, [{ name: "Env", value: "prod" }])).toBe(true)
+        expect(matchesTagFilters(group, [{ name: "Env", value: "dev" }])).toBe(false)
+        expect(matchesTagFilters(group, [{ name: "Env" }])).toBe(true)
+        expect(matchesTagFilters(group, [{ name: "Owner" }])).toBe(false)
+    })
+
+    it("matches any of the filters", () => {
+        expect(matchesTagFilters(group, [{ name: "Env", value: "dev" }, { name: "Team", value: "core" }])).toBe(true)
+    })
+})
+
+describe("tag frames", () => {
+    it("keys the frames on the value of the tag", () => {
+        const frameId = getTagFrameId({ name: "Team", value: "core=1" })
+        expect(isTagFrameId(frameId)).toBe(true)
+        expect(isTagFrameId("module.svc")).toBe(false)
+        expect(getTagFrameLabel(frameId)).toBe("Team = core=1")
+    })
+
+    it("groups a node group by the value of its tag", () => {
+        const group = nodeGroup([resourceChange(["create"], null, { tags: { Team: "core" } })])
+        expect(getGroupingTag(group, "Team")).toEqual({ name: "Team", value: "core" })
+        expect(getGroupingTag(group, "Env")).toBeUndefined()
+    })
+})
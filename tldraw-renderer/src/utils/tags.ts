@@ -0,0 +1,53 @@
+import { NodeGroup, Tag } from "../parser/types"
+
+// A tag filter selects the resources with the tag, with any value when the value is not given
+export type TagFilter = {
+    name: string,
+    value?: string
+}
+
+// The tags after the change, or before it for the deletions, which have no values after the change
+export const getResourceChangeTags = (resourceChange: any): Tag[] => {
+    const values = resourceChange.change?.after || resourceChange.change?.before
+    const tags = values?.tags_all || values?.tags || {}
+    return Object.keys(tags).filter((name) => typeof tags[name] === "string").map((name) => {
+        return { name, value: tags[name] }
+    })
+}
+
+// The tags of all the resources of the node group, starting with the main resource
+export const getNodeGroupTags = (nodeGroup: NodeGroup): Tag[] => {
+    const tags = nodeGroup.nodes.map((node) => (node.resourceChanges || []).map((resourceChange) => getResourceChangeTags(resourceChange)).flat()).flat()
+    return tags.filter((tag, index) => tags.findIndex((other) => other.name === tag.name && other.value === tag.value) === index)
+}
+
+export const matchesTagFilters = (nodeGroup: NodeGroup, tagFilters: TagFilter[]) => {
+    return getNodeGroupTags(nodeGroup).some((tag) => tagFilters.some((tagFilter) => {
+        return tagFilter.name === tag.name && (tagFilter.value === undefined || tagFilter.value === tag.value)
+    }))
+}
+
+export const isSameTagFilter = (a: TagFilter, b: TagFilter) => {
+    return a.name === b.name && a.value === b.value
+}
+
+// In the group by tag mode, the frames are keyed on the value of the tag, e.g. "tag.Team=core"
+const tagFramePrefix = "tag."
+
+export const getTagFrameId = (tag: Tag) => {
+    return tagFramePrefix + tag.name + "=" + tag.value
+}
+
+export const isTagFrameId = (id: string) => {
+    return id.startsWith(tagFramePrefix)
+}
+
+export const getTagFrameLabel = (frameId: string) => {
+    const tag = frameId.slice(tagFramePrefix.length)
+    return tag.slice(0, tag.indexOf("=")) + " = " + tag.slice(tag.indexOf("=") + 1)
+}
+
+// The value of the tag used to group the node group, if it has the tag
+export const getGroupingTag = (nodeGroup: NodeGroup, tagName: string) => {
+    return getNodeGroupTags(nodeGroup).find((tag) => tag.name === tagName)
+}